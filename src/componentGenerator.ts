@@ -0,0 +1,155 @@
+/**
+ * Component Generator - Generate React icon component source from SVG markup
+ */
+
+import { svgToJsx, toPascalCase } from './utils'
+
+export interface IconComponentOptions {
+  /** Component name */
+  name: string
+  /** Wrap the component in forwardRef and pass the ref to the <svg> */
+  forwardRef?: boolean
+  /** Wrap the component in memo */
+  memo?: boolean
+  /** Replace fill and stroke colors with currentColor */
+  currentColor?: boolean
+  /** Emit TypeScript types */
+  typescript?: boolean
+  /** Add a size prop that sets the width and height, defaulting to the SVG's width */
+  sizeProp?: boolean
+  /** Add a title prop rendered as <title>; without it the icon is hidden from assistive technology */
+  titleProp?: boolean
+}
+
+/**
+ * Get the default of the size prop: the SVG's width, or 24
+ */
+function getDefaultSize(jsx: string): string {
+  const rootTag = jsx.match(/^<svg\b[^>]*>/)?.[0] ?? ''
+  const width = rootTag.match(/\swidth=(?:"([^"]*)"|\{(\d+(?:\.\d+)?)\})/)
+  const value = width?.[1] ?? width?.[2] ?? '24'
+  return /^\d+(?:\.\d+)?(?:px)?$/.test(value) ? String(parseFloat(value)) : `'${value}'`
+}
+
+/**
+ * Apply a naming template such as "{name}Icon" to a file or icon name
+ */
+export function applyNameTemplate(template: string, name: string): string {
+  return toPascalCase(template.replace(/\{name\}/g, toPascalCase(name)))
+}
+
+/**
+ * Get the named imports from 'react' the generated component needs
+ */
+export function getIconComponentImports(options: IconComponentOptions): string[] {
+  const imports: string[] = []
+  if (options.forwardRef) {
+    imports.push('forwardRef')
+  }
+  if (options.memo) {
+    imports.push('memo')
+  }
+  if (options.typescript) {
+    imports.push('type SVGProps')
+  }
+  return imports
+}
+
+/**
+ * Remove the common indentation of all lines after the first.
+ * The first line of a selection starts mid-line, so it is only trimmed.
+ */
+function dedent(text: string): string {
+  const [first, ...rest] = text.split(/\r?\n/)
+  const indents = rest
+    .filter((line) => line.trim().length > 0)
+    .map((line) => (line.match(/^[ \t]*/) as RegExpMatchArray)[0].length)
+  const minIndent = indents.length > 0 ? Math.min(...indents) : 0
+  return [first.trim(), ...rest.map((line) => line.slice(minIndent).trimEnd())].join('\n')
+}
+
+/**
+ * Generate the source of a React icon component from SVG markup
+ */
+export function generateIconComponent(
+  svg: string,
+  options: IconComponentOptions,
+  { includeImports = true }: { includeImports?: boolean } = {}
+): string {
+  const { name, forwardRef = false, memo = false, typescript = true, sizeProp = false, titleProp = false } =
+    options
+  const extraProps = [sizeProp ? 'size?: number | string' : '', titleProp ? 'title?: string' : '']
+    .filter((prop) => prop.length > 0)
+    .join('; ')
+  const propsType = extraProps ? `SVGProps<SVGSVGElement> & { ${extraProps} }` : 'SVGProps<SVGSVGElement>'
+
+  // Pass the ref and remaining props to the root <svg>
+  const converted = dedent(svgToJsx(svg, { currentColor: options.currentColor }))
+  const defaultSize = getDefaultSize(converted)
+  const jsx = converted.replace(/^<svg\b([^>]*?)\s*(\/?)>/, (match, attrs: string, selfClosing: string) => {
+    let rootAttrs = attrs
+    if (sizeProp) {
+      rootAttrs = `${rootAttrs.replace(/\s(?:width|height)=(?:"[^"]*"|\{[^}]*\})/g, '')} width={size} height={size}`
+    }
+    if (titleProp) {
+      rootAttrs += ' aria-hidden={title ? undefined : true}'
+    }
+    const opening = `<svg${rootAttrs}${forwardRef ? ' ref={ref}' : ''} {...props}`
+    if (titleProp) {
+      // Put the title on its own line when the children are
+      const separator = selfClosing || converted.charAt(match.length) === '\n' ? '\n  ' : ''
+      return `${opening}>${separator}{title ? <title>{title}</title> : null}${selfClosing ? '\n</svg>' : ''}`
+    }
+    return `${opening}${selfClosing ? ' />' : '>'}`
+  })
+  const markup = jsx
+    .split('\n')
+    .map((line) => (line ? `  ${line}` : line))
+    .join('\n')
+
+  // Size and title are taken out of the props spread onto the <svg>
+  const destructured = [sizeProp ? `size = ${defaultSize}` : '', titleProp ? 'title' : '']
+    .filter((prop) => prop.length > 0)
+    .join(', ')
+  const propsParam = destructured ? `{ ${destructured}, ...props }` : 'props'
+
+  let params: string
+  if (forwardRef) {
+    params = `(${propsParam}, ref)`
+  } else {
+    params = typescript ? `(${propsParam}: ${propsType})` : `(${propsParam})`
+  }
+
+  let opening = `${params} => (`
+  let closing = ')'
+  if (forwardRef) {
+    opening = `forwardRef${typescript ? `<SVGSVGElement, ${propsType}>` : ''}(${opening}`
+    closing += ')'
+  }
+  if (memo) {
+    opening = `memo(${opening}`
+    closing += ')'
+  }
+
+  const lines: string[] = []
+
+  const imports = getIconComponentImports({ ...options, typescript })
+  if (includeImports && imports.length > 0) {
+    const typeOnly = imports.every((name) => name.startsWith('type '))
+    lines.push(
+      typeOnly
+        ? `import type { ${imports.map((name) => name.replace(/^type\s+/, '')).join(', ')} } from 'react'`
+        : `import { ${imports.join(', ')} } from 'react'`,
+      ''
+    )
+  }
+
+  lines.push(`export const ${name} = ${opening}`, markup, closing)
+
+  // Wrapped components are anonymous, so give them a name in React DevTools
+  if (forwardRef || memo) {
+    lines.push('', `${name}.displayName = '${name}'`)
+  }
+
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,271 @@
+/**
+ * Convert to Component - Code action and command that turn raw SVG markup into a React icon component
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { isRawSvgContent, parseSourceFile } from './svgParser'
+import {
+  IconComponentOptions,
+  applyNameTemplate,
+  generateIconComponent,
+  getIconComponentImports,
+} from './componentGenerator'
+
+type ConvertTarget = 'newFile' | 'replace'
+
+const CONVERT_COMMAND = 'reactSvgPreview.convertToComponent'
+
+/**
+ * Check if text is a single <svg> element (optionally with an XML declaration)
+ */
+function isSvgMarkup(text: string): boolean {
+  const trimmed = text.trim()
+  return isRawSvgContent(trimmed) && /<\/svg>$|\/>$/.test(trimmed)
+}
+
+/**
+ * Provide "convert to React component" actions for .svg documents and selected <svg> markup
+ */
+class ConvertToComponentActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [
+    vscode.CodeActionKind.RefactorRewrite,
+    vscode.CodeActionKind.RefactorExtract,
+  ]
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = []
+
+    if (!range.isEmpty && isSvgMarkup(document.getText(range))) {
+      const replace = new vscode.CodeAction(
+        'Replace with React icon component',
+        vscode.CodeActionKind.RefactorRewrite
+      )
+      replace.command = {
+        command: CONVERT_COMMAND,
+        title: replace.title,
+        arguments: [document.uri, range, 'replace'],
+      }
+
+      const extract = new vscode.CodeAction(
+        'Extract to React icon component file',
+        vscode.CodeActionKind.RefactorExtract
+      )
+      extract.command = {
+        command: CONVERT_COMMAND,
+        title: extract.title,
+        arguments: [document.uri, range, 'newFile'],
+      }
+
+      actions.push(replace, extract)
+    } else if (document.fileName.endsWith('.svg') && isSvgMarkup(document.getText())) {
+      const convert = new vscode.CodeAction(
+        'Convert SVG file to React icon component',
+        vscode.CodeActionKind.RefactorExtract
+      )
+      convert.command = {
+        command: CONVERT_COMMAND,
+        title: convert.title,
+        arguments: [document.uri, undefined, 'newFile'],
+      }
+      actions.push(convert)
+    }
+
+    return actions
+  }
+}
+
+/**
+ * Add the named imports the component needs to the document's existing
+ * `import { ... } from 'react'`, or insert a new import at the top
+ */
+function addReactImports(
+  document: vscode.TextDocument,
+  names: string[],
+  edit: vscode.WorkspaceEdit
+): void {
+  if (names.length === 0) {
+    return
+  }
+
+  const text = document.getText()
+  const importMatch = text.match(/import\s+(\w+\s*,\s*)?\{([^}]*)\}\s+from\s+['"]react['"]/)
+
+  if (importMatch && importMatch.index !== undefined) {
+    const existing = importMatch[2]
+      .split(',')
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0)
+    const missing = names.filter(
+      (name) => !existing.includes(name) && !existing.includes(name.replace(/^type\s+/, ''))
+    )
+    if (missing.length > 0) {
+      const start = document.positionAt(importMatch.index)
+      const end = document.positionAt(importMatch.index + importMatch[0].length)
+      const merged = [...existing, ...missing].join(', ')
+      const defaultImport = importMatch[1] ?? ''
+      edit.replace(
+        document.uri,
+        new vscode.Range(start, end),
+        `import ${defaultImport}{ ${merged} } from 'react'`
+      )
+    }
+  } else {
+    edit.insert(document.uri, new vscode.Position(0, 0), `import { ${names.join(', ')} } from 'react'\n`)
+  }
+}
+
+/**
+ * Find where to declare a component for markup inside a top-level statement: the start of
+ * that statement, including its doc comment. Markup that is not inside a statement, or is a
+ * whole statement itself, has no such place.
+ */
+function findDeclarationOffset(document: vscode.TextDocument, range: vscode.Range): number | undefined {
+  const sourceFile = parseSourceFile(document.getText(), path.basename(document.fileName))
+  const start = document.offsetAt(range.start)
+  const end = document.offsetAt(range.end)
+  const statement = sourceFile.statements.find(
+    (statement) => statement.getStart(sourceFile) <= start && end <= statement.getEnd()
+  )
+  if (!statement || (statement.getStart(sourceFile) === start && statement.getEnd() <= end)) {
+    return undefined
+  }
+  return statement.getStart(sourceFile, true)
+}
+
+/**
+ * Convert the given range (or the whole .svg document) to a React icon component
+ */
+async function convertToComponent(
+  uri?: vscode.Uri,
+  range?: vscode.Range,
+  target?: ConvertTarget
+): Promise<void> {
+  const editor = vscode.window.activeTextEditor
+  const document = uri ? await vscode.workspace.openTextDocument(uri) : editor?.document
+  if (!document) {
+    return
+  }
+
+  if (!range && editor?.document === document && !editor.selection.isEmpty) {
+    range = editor.selection
+  }
+
+  const svg = range ? document.getText(range) : document.getText()
+  if (!isSvgMarkup(svg)) {
+    vscode.window.showWarningMessage(
+      'React SVG Preview: Select an <svg> element or open an .svg file to convert'
+    )
+    return
+  }
+
+  if (!target) {
+    if (range) {
+      const picked = await vscode.window.showQuickPick(
+        [
+          { label: 'Replace selection', target: 'replace' as const },
+          { label: 'Write a new file', target: 'newFile' as const },
+        ],
+        { placeHolder: 'Where should the component go?' }
+      )
+      if (!picked) {
+        return
+      }
+      target = picked.target
+    } else {
+      target = 'newFile'
+    }
+  }
+
+  const config = vscode.workspace.getConfiguration('reactSvgPreview')
+  const baseName = range ? 'Svg' : path.basename(document.fileName, '.svg')
+  const name = await vscode.window.showInputBox({
+    prompt: 'Component name',
+    value: applyNameTemplate(config.get<string>('componentNameTemplate', '{name}Icon'), baseName),
+    validateInput: (value) =>
+      /^[A-Z][A-Za-z0-9_]*$/.test(value) ? undefined : 'Component names must be PascalCase identifiers',
+  })
+  if (!name) {
+    return
+  }
+
+  // Match the language of the file the component is written into
+  const typescript =
+    target === 'newFile' || !['javascript', 'javascriptreact'].includes(document.languageId)
+
+  const options: IconComponentOptions = {
+    name,
+    forwardRef: config.get<boolean>('componentForwardRef', false),
+    memo: config.get<boolean>('componentMemo', false),
+    currentColor: config.get<boolean>('componentCurrentColor', true),
+    sizeProp: config.get<boolean>('componentSizeProp', false),
+    titleProp: config.get<boolean>('componentTitleProp', false),
+    typescript,
+  }
+
+  if (target === 'replace' && range) {
+    const edit = new vscode.WorkspaceEdit()
+    const declaration = generateIconComponent(svg, options, { includeImports: false })
+    addReactImports(document, getIconComponentImports(options), edit)
+
+    // Markup inside JSX or a function body is replaced with the component, which is
+    // declared at module scope before the statement containing it
+    const isScript = ['typescriptreact', 'javascriptreact', 'typescript', 'javascript'].includes(
+      document.languageId
+    )
+    const declarationOffset = isScript ? findDeclarationOffset(document, range) : undefined
+    if (declarationOffset !== undefined) {
+      const insertAt = new vscode.Position(document.positionAt(declarationOffset).line, 0)
+      edit.insert(document.uri, insertAt, `${declaration}\n`)
+      edit.replace(document.uri, range, `<${name} />`)
+    } else {
+      edit.replace(document.uri, range, declaration)
+    }
+    await vscode.workspace.applyEdit(edit)
+    return
+  }
+
+  const fileUri = vscode.Uri.file(path.join(path.dirname(document.fileName), `${name}.tsx`))
+
+  try {
+    await vscode.workspace.fs.stat(fileUri)
+    const overwrite = await vscode.window.showWarningMessage(
+      `${path.basename(fileUri.fsPath)} already exists. Overwrite it?`,
+      { modal: true },
+      'Overwrite'
+    )
+    if (overwrite !== 'Overwrite') {
+      return
+    }
+  } catch {
+    // File does not exist yet
+  }
+
+  await vscode.workspace.fs.writeFile(fileUri, Buffer.from(generateIconComponent(svg, options)))
+  await vscode.window.showTextDocument(fileUri)
+}
+
+/**
+ * Register the convert-to-component code action provider and command
+ */
+export function createConvertToComponentProvider(context: vscode.ExtensionContext): void {
+  const provider = vscode.languages.registerCodeActionsProvider(
+    [
+      { language: 'typescriptreact', scheme: 'file' },
+      { language: 'javascriptreact', scheme: 'file' },
+      { language: 'typescript', scheme: 'file' },
+      { language: 'javascript', scheme: 'file' },
+      { language: 'xml', scheme: 'file' },
+      { language: 'svg', scheme: 'file' },
+    ],
+    new ConvertToComponentActionProvider(),
+    { providedCodeActionKinds: ConvertToComponentActionProvider.providedCodeActionKinds }
+  )
+
+  const command = vscode.commands.registerCommand(CONVERT_COMMAND, convertToComponent)
+
+  context.subscriptions.push(provider, command)
+}
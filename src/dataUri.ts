@@ -0,0 +1,98 @@
+/**
+ * Data URI - Code actions that decode SVG data URIs to readable markup and re-encode them
+ */
+
+import * as vscode from 'vscode'
+import { ParsedSvgComponent } from './svgParser'
+import { getDocumentComponents } from './documentModel'
+import { svgToDataUri, svgToBase64DataUri, svgToReadableDataUri } from './utils'
+
+/**
+ * Find the data URI at a position: the one containing the cursor, or the first on its line
+ */
+function findDataUriAt(
+  components: ParsedSvgComponent[],
+  position: vscode.Position
+): ParsedSvgComponent | undefined {
+  const onLine = components.filter(
+    (c) => c.dataUriEncoding && c.nameLine === position.line && c.endLine === c.startLine
+  )
+  return (
+    onLine.find(
+      (c) =>
+        (c.nameStartCharacter ?? 0) <= position.character && position.character <= (c.nameEndCharacter ?? 0)
+    ) ?? onLine[0]
+  )
+}
+
+/**
+ * Provide actions to decode the SVG data URI at the cursor and to re-encode it
+ */
+class DataUriActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.RefactorRewrite]
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection
+  ): vscode.CodeAction[] {
+    const component = findDataUriAt(getDocumentComponents(document), range.start)
+    if (!component) {
+      return []
+    }
+
+    const line = component.nameLine as number
+    const uriRange = new vscode.Range(
+      line,
+      component.nameStartCharacter as number,
+      line,
+      component.nameEndCharacter as number
+    )
+    const svg = component.rawJsx
+    const actions: vscode.CodeAction[] = []
+
+    const addAction = (title: string, uri: string) => {
+      const action = new vscode.CodeAction(title, vscode.CodeActionKind.RefactorRewrite)
+      action.edit = new vscode.WorkspaceEdit()
+      action.edit.replace(document.uri, uriRange, uri)
+      actions.push(action)
+    }
+
+    // Readable markup keeps quotes, so it needs to know the quote the URI is written in
+    const quote = document.lineAt(line).text.charAt(uriRange.start.character - 1)
+    if (component.dataUriEncoding !== 'plain' && (quote === '"' || quote === "'")) {
+      addAction('Decode SVG data URI to readable markup', svgToReadableDataUri(svg, quote))
+    }
+    if (component.dataUriEncoding !== 'url') {
+      addAction('Encode SVG data URI (URL-encoded)', svgToDataUri(svg))
+    }
+    if (component.dataUriEncoding !== 'base64') {
+      addAction('Encode SVG data URI (base64)', svgToBase64DataUri(svg))
+    }
+
+    return actions
+  }
+}
+
+/**
+ * Register the data URI code action provider
+ */
+export function createDataUriProvider(context: vscode.ExtensionContext): void {
+  const provider = vscode.languages.registerCodeActionsProvider(
+    [
+      { language: 'css', scheme: 'file' },
+      { language: 'scss', scheme: 'file' },
+      { language: 'less', scheme: 'file' },
+      { language: 'typescriptreact', scheme: 'file' },
+      { language: 'javascriptreact', scheme: 'file' },
+      { language: 'typescript', scheme: 'file' },
+      { language: 'javascript', scheme: 'file' },
+      { language: 'vue', scheme: 'file' },
+      { language: 'svelte', scheme: 'file' },
+      { language: 'html', scheme: 'file' },
+    ],
+    new DataUriActionProvider(),
+    { providedCodeActionKinds: DataUriActionProvider.providedCodeActionKinds }
+  )
+
+  context.subscriptions.push(provider)
+}
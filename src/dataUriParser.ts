@@ -0,0 +1,107 @@
+/**
+ * Data URI Parser - Find SVG data URIs in stylesheets and string literals
+ */
+
+import { ParsedSvgComponent } from './svgParser'
+import { createPositionResolver, dataUriToSvg } from './utils'
+
+export type DataUriEncoding = NonNullable<ParsedSvgComponent['dataUriEncoding']>
+
+// Header of an SVG data URI, up to the comma before the data
+const DATA_URI_START_PATTERN = /data:image\/svg\+xml(?:;[^;,\s"'`)]*)*,/gi
+
+// Characters that end a data URI, by the character written before it
+const DATA_URI_TERMINATORS: Record<string, RegExp> = {
+  '"': /"/,
+  "'": /'/,
+  '`': /`/,
+  '(': /\)/,
+}
+
+/**
+ * Get the encoding of a data URI
+ */
+export function getDataUriEncoding(uri: string): DataUriEncoding {
+  if (/^data:[^,]*;base64,/i.test(uri)) {
+    return 'base64'
+  }
+  return uri.includes('<') ? 'plain' : 'url'
+}
+
+/**
+ * Name a data URI after the variable, property or key it is assigned to, e.g.
+ * `--icon-check`, `$icon-check`, `checkIcon`, or `background-image`
+ */
+function getDataUriName(linePrefix: string): string {
+  const match = linePrefix.match(/([$@]?[\w-]+)\s*[:=]\s*(?:url\(\s*)?["'`]?$/)
+  return match ? match[1] : 'dataUri'
+}
+
+/**
+ * Parse the SVG data URIs of a text. Each decoded icon spans the URI's line, and its name
+ * range covers the URI so inline icons and code actions can find it.
+ */
+export function parseDataUriComponents(
+  text: string,
+  options: { defaultFillColor?: string } = {}
+): ParsedSvgComponent[] {
+  const components: ParsedSvgComponent[] = []
+  const seenNames = new Set<string>()
+  const resolve = createPositionResolver(text)
+
+  for (const match of text.matchAll(DATA_URI_START_PATTERN)) {
+    const start = match.index as number
+    const dataStart = start + match[0].length
+    // A URI ends at its closing quote or parenthesis, or at whitespace or a semicolon when unquoted
+    const terminator = DATA_URI_TERMINATORS[text[start - 1]] ?? /[\s;,]/
+    const endOffset = text.slice(dataStart).search(terminator)
+    const end = endOffset === -1 ? text.length : dataStart + endOffset
+    const uri = text.slice(start, end)
+
+    const markup = dataUriToSvg(uri)?.trim()
+    if (!markup || !/^(?:<\?xml[\s\S]*?\?>\s*)?<svg\b/i.test(markup)) {
+      continue
+    }
+
+    const startPosition = resolve(start)
+    const endPosition = resolve(end)
+    const linePrefix = text.slice(start - startPosition.character, start)
+    let name = getDataUriName(linePrefix)
+    for (let index = 1; seenNames.has(name); index++) {
+      name = `${getDataUriName(linePrefix)}[${index}]`
+    }
+    seenNames.add(name)
+
+    const rootTag = (markup.match(/<svg\b[^>]*>/i) as RegExpMatchArray)[0]
+    const viewBox = rootTag.match(/\sviewBox=["']([^"']+)["']/)?.[1]
+    const width = parseFloat(rootTag.match(/\swidth=["']([^"']+)["']/)?.[1] ?? '')
+    const height = parseFloat(rootTag.match(/\sheight=["']([^"']+)["']/)?.[1] ?? '')
+
+    // Data URIs render as images, so they need the namespace and can't inherit currentColor
+    let svg = /\sxmlns=/.test(rootTag)
+      ? markup
+      : markup.replace(/<svg\b/i, '<svg xmlns="http://www.w3.org/2000/svg"')
+    if (options.defaultFillColor) {
+      svg = svg.replace(/currentColor/g, options.defaultFillColor)
+    }
+
+    components.push({
+      name,
+      startLine: startPosition.line,
+      endLine: endPosition.line,
+      nameLine: startPosition.line,
+      nameStartCharacter: startPosition.character,
+      // URIs spanning lines mark only their start
+      nameEndCharacter: endPosition.line === startPosition.line ? endPosition.character : startPosition.character,
+      rawJsx: markup,
+      svg,
+      ...(viewBox ? { viewBox } : {}),
+      ...(isNaN(width) ? {} : { width }),
+      ...(isNaN(height) ? {} : { height }),
+      isRawSvg: true,
+      dataUriEncoding: getDataUriEncoding(uri),
+    })
+  }
+
+  return components
+}
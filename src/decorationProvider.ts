@@ -3,80 +3,147 @@
  */
 
 import * as vscode from 'vscode'
-import * as path from 'path'
-import * as fs from 'fs'
-import * as os from 'os'
-import { ParsedSvgComponent, parseSvgComponents, parseRawSvgFile, isRawSvgContent } from './svgParser'
+import { ParsedSvgComponent } from './svgParser'
+import { resolveFillColor } from './themeColor'
+import { getIconPath, retainIconPaths } from './iconCache'
+import { getDocumentComponents, getDocumentUsages } from './documentModel'
 
-// Store decoration types for cleanup
+/**
+ * Where icons are shown: in the gutter, next to the name or tag in the text, or both
+ */
+export type IconDisplayMode = 'gutter' | 'inline' | 'both'
+
+/**
+ * Side of the component name or JSX tag where inline icons are rendered
+ */
+export type InlineIconPosition = 'before' | 'after'
+
+// Decoration types keyed by icon file, placement and size, shared by all components with the same icon
 const decorationTypes: Map<string, vscode.TextEditorDecorationType> = new Map()
 
-// Store temp file paths for each component (shared with hoverProvider)
-const tempFilePaths: Map<string, string> = new Map()
+// Icon file of each decoration type, kept in the icon cache while the type lives
+const decorationIconPaths: Map<string, string> = new Map()
 
-// Temp directory for storing SVG files (needed for gutter icons)
-const tempDir = path.join(os.tmpdir(), 'react-svg-preview')
+// Decoration type keys currently set in each editor. Editors showing the same document
+// (split panes, both sides of a diff) each have their own entry.
+const editorDecorations: Map<vscode.TextEditor, Set<string>> = new Map()
 
 /**
- * Get temp file path for a component
- * Key format: "documentUri:componentName"
+ * Clear all decorations
  */
-export function getTempFilePath(documentUri: string, componentName: string): string | undefined {
-  return tempFilePaths.get(`${documentUri}:${componentName}`)
+export function clearDecorations(): void {
+  for (const decorationType of decorationTypes.values()) {
+    decorationType.dispose()
+  }
+  decorationTypes.clear()
+  decorationIconPaths.clear()
+  editorDecorations.clear()
 }
 
 /**
- * Ensure temp directory exists
+ * Get the decoration type showing an icon in the gutter or inline, creating it if needed
  */
-function ensureTempDir(): void {
-  if (!fs.existsSync(tempDir)) {
-    fs.mkdirSync(tempDir, { recursive: true })
+function getDecorationType(
+  component: ParsedSvgComponent,
+  placement: 'gutter' | InlineIconPosition,
+  iconSize: number
+): string {
+  // Icons need a file, shared by all components with the same SVG
+  const svgPath = getIconPath(component.svg)
+  const key = `${svgPath}:${placement}:${iconSize}`
+
+  if (!decorationTypes.has(key)) {
+    const iconUri = vscode.Uri.file(svgPath)
+    const size = `${iconSize}px`
+    const attachment: vscode.ThemableDecorationAttachmentRenderOptions = {
+      contentIconPath: iconUri,
+      width: size,
+      height: size,
+      margin: placement === 'before' ? '0 4px 0 0' : '0 0 0 4px',
+    }
+    const options: vscode.DecorationRenderOptions =
+      placement === 'gutter'
+        ? { gutterIconPath: iconUri, gutterIconSize: size }
+        : placement === 'before'
+          ? { before: attachment }
+          : { after: attachment }
+    decorationTypes.set(key, vscode.window.createTextEditorDecorationType(options))
+    decorationIconPaths.set(key, svgPath)
   }
+
+  return key
 }
 
 /**
- * Create a temp SVG file and return its path
+ * Get the editor line height in pixels, following VS Code's defaults for an unset or
+ * relative editor.lineHeight
  */
-function createTempSvgFile(svg: string, name: string): string {
-  ensureTempDir()
-  const filePath = path.join(tempDir, `${name}-${Date.now()}.svg`)
-  fs.writeFileSync(filePath, svg)
-  return filePath
+function getEditorLineHeight(): number {
+  const editorConfig = vscode.workspace.getConfiguration('editor')
+  const fontSize = editorConfig.get<number>('fontSize', 14)
+  const lineHeight = editorConfig.get<number>('lineHeight', 0)
+
+  if (lineHeight <= 0) {
+    return Math.round(fontSize * (process.platform === 'darwin' ? 1.5 : 1.35))
+  }
+  // Values below 8 are multipliers of the font size
+  return lineHeight < 8 ? Math.round(fontSize * lineHeight) : lineHeight
 }
 
 /**
- * Clean up old temp files
+ * Dispose decoration types no editor uses anymore
  */
-function cleanupTempFiles(): void {
-  if (!fs.existsSync(tempDir)) {
-    return
+function disposeUnusedDecorationTypes(): void {
+  const usedKeys = new Set<string>()
+  for (const keys of editorDecorations.values()) {
+    keys.forEach((key) => usedKeys.add(key))
   }
+  for (const [key, decorationType] of decorationTypes) {
+    if (!usedKeys.has(key)) {
+      decorationType.dispose()
+      decorationTypes.delete(key)
+      decorationIconPaths.delete(key)
+    }
+  }
+}
 
-  const files = fs.readdirSync(tempDir)
-  const now = Date.now()
-  const maxAge = 1000 * 60 * 60 // 1 hour
-
-  for (const file of files) {
-    const filePath = path.join(tempDir, file)
-    try {
-      const stats = fs.statSync(filePath)
-      if (now - stats.mtimeMs > maxAge) {
-        fs.unlinkSync(filePath)
-      }
-    } catch {
-      // Ignore errors
+/**
+ * Forget the decorations of editors that are no longer visible
+ */
+function pruneEditors(visibleEditors: readonly vscode.TextEditor[]): void {
+  for (const editor of editorDecorations.keys()) {
+    if (!visibleEditors.includes(editor)) {
+      editorDecorations.delete(editor)
     }
   }
+  disposeUnusedDecorationTypes()
 }
 
 /**
- * Clear all decorations
+ * Set the decorations of an editor, clearing the ones it no longer shows
  */
-export function clearDecorations(): void {
-  for (const decorationType of decorationTypes.values()) {
-    decorationType.dispose()
+function applyDecorations(editor: vscode.TextEditor, ranges: Map<string, vscode.Range[]>): void {
+  for (const [key, keyRanges] of ranges) {
+    const decorationType = decorationTypes.get(key)
+    if (decorationType) {
+      editor.setDecorations(decorationType, keyRanges)
+    }
   }
-  decorationTypes.clear()
+
+  for (const key of editorDecorations.get(editor) ?? []) {
+    const decorationType = decorationTypes.get(key)
+    if (decorationType && !ranges.has(key)) {
+      editor.setDecorations(decorationType, [])
+    }
+  }
+
+  if (ranges.size > 0) {
+    editorDecorations.set(editor, new Set(ranges.keys()))
+  } else {
+    editorDecorations.delete(editor)
+  }
+
+  disposeUnusedDecorationTypes()
 }
 
 /**
@@ -88,88 +155,89 @@ export function updateDecorations(
     enabled: boolean
     showInlineIcon: boolean
     iconSize: number
+    displayMode: IconDisplayMode
+    inlineIconPosition: InlineIconPosition
     defaultFillColor: string
   }
 ): ParsedSvgComponent[] {
-  // Clear existing decorations for this editor
-  const editorKey = editor.document.uri.toString()
-  const existingDecoration = decorationTypes.get(editorKey)
-  if (existingDecoration) {
-    existingDecoration.dispose()
-    decorationTypes.delete(editorKey)
-  }
+  const ranges: Map<string, vscode.Range[]> = new Map()
 
   if (!config.enabled || !config.showInlineIcon) {
+    applyDecorations(editor, ranges)
     return []
   }
 
-  const text = editor.document.getText()
-  const fileName = editor.document.fileName.split('/').pop() || 'unknown'
-  
-  // Check if this is a raw SVG file
-  let components: ParsedSvgComponent[]
-  if (isRawSvgContent(text) || fileName.endsWith('.svg')) {
-    components = parseRawSvgFile(text, fileName)
-  } else {
-    components = parseSvgComponents(text, {
-      defaultFillColor: config.defaultFillColor,
-    })
-  }
-
-  if (components.length === 0) {
-    return components
-  }
+  const components = getDocumentComponents(editor.document, config.defaultFillColor)
+  const usages = getDocumentUsages(editor.document, config.defaultFillColor)
 
-  // Clean up old temp files periodically
-  cleanupTempFiles()
+  const showGutter = config.displayMode !== 'inline'
+  const showInline = config.displayMode !== 'gutter'
+  const position = config.inlineIconPosition
+  // Leave a little room so inline icons on adjacent lines don't touch
+  const inlineIconSize = Math.max(8, getEditorLineHeight() - 4)
 
-  // Create decorations for each component
-  for (const component of components) {
+  const addIcon = (
+    component: ParsedSvgComponent,
+    placement: 'gutter' | InlineIconPosition,
+    range: vscode.Range
+  ) => {
     try {
-      // Create temp SVG file for gutter icon
-      const svgPath = createTempSvgFile(component.svg, component.name)
-
-      // Store temp file path for hover provider to use
-      const componentKey = `${editorKey}:${component.name}`
-      tempFilePaths.set(componentKey, svgPath)
-
-      // Create decoration type with gutter icon
-      const decorationType = vscode.window.createTextEditorDecorationType({
-        gutterIconPath: vscode.Uri.file(svgPath),
-        gutterIconSize: `${config.iconSize}px`,
-      })
-
-      // Store for cleanup
-      const existingComponentDecoration = decorationTypes.get(componentKey)
-      if (existingComponentDecoration) {
-        existingComponentDecoration.dispose()
-      }
-      decorationTypes.set(componentKey, decorationType)
-
-      // Apply decoration to the component's start line
-      const range = new vscode.Range(
-        new vscode.Position(component.startLine, 0),
-        new vscode.Position(component.startLine, 0)
+      const key = getDecorationType(
+        component,
+        placement,
+        placement === 'gutter' ? config.iconSize : inlineIconSize
       )
-
-      editor.setDecorations(decorationType, [{ range }])
+      const keyRanges = ranges.get(key) ?? []
+      keyRanges.push(range)
+      ranges.set(key, keyRanges)
     } catch (error) {
       console.error(`Failed to create decoration for ${component.name}:`, error)
     }
   }
 
+  // Show each component on its start line, and inline next to its name
+  for (const component of components) {
+    if (showGutter) {
+      addIcon(component, 'gutter', new vscode.Range(component.startLine, 0, component.startLine, 0))
+    }
+    if (showInline) {
+      const line = component.nameLine ?? component.startLine
+      const character =
+        position === 'before' ? component.nameStartCharacter ?? 0 : component.nameEndCharacter ?? 0
+      addIcon(component, position, new vscode.Range(line, character, line, character))
+    }
+  }
+
+  // Show each usage on its line, and inline next to its tag
+  for (const usage of usages) {
+    if (showGutter) {
+      addIcon(usage.component, 'gutter', new vscode.Range(usage.line, 0, usage.line, 0))
+    }
+    if (showInline) {
+      const character = position === 'before' ? usage.startCharacter : usage.endCharacter
+      addIcon(usage.component, position, new vscode.Range(usage.line, character, usage.line, character))
+    }
+  }
+
+  applyDecorations(editor, ranges)
+
   return components
 }
 
 /**
- * Create a decoration provider that updates on document changes
+ * Create a decoration provider that keeps every visible editor updated.
+ * `onDidUpdateDocument` is called after a document's editors were updated.
  */
-export function createDecorationProvider(context: vscode.ExtensionContext): {
+export function createDecorationProvider(
+  context: vscode.ExtensionContext,
+  onDidUpdateDocument?: (document: vscode.TextDocument) => void
+): {
   update: (editor: vscode.TextEditor) => ParsedSvgComponent[]
+  updateAll: () => void
   dispose: () => void
 } {
-  let timeout: NodeJS.Timeout | undefined
-  let cachedComponents: Map<string, ParsedSvgComponent[]> = new Map()
+  // Pending throttled updates, keyed by document URI
+  const timeouts: Map<string, NodeJS.Timeout> = new Map()
 
   const getConfig = () => {
     const config = vscode.workspace.getConfiguration('reactSvgPreview')
@@ -177,70 +245,78 @@ export function createDecorationProvider(context: vscode.ExtensionContext): {
       enabled: config.get<boolean>('enabled', true),
       showInlineIcon: config.get<boolean>('showInlineIcon', true),
       iconSize: config.get<number>('iconSize', 16),
-      defaultFillColor: config.get<string>('defaultFillColor', '#888888'),
+      displayMode: config.get<IconDisplayMode>('iconDisplayMode', 'gutter'),
+      inlineIconPosition: config.get<InlineIconPosition>('inlineIconPosition', 'before'),
+      defaultFillColor: resolveFillColor(config),
     }
   }
 
   const update = (editor: vscode.TextEditor): ParsedSvgComponent[] => {
-    const config = getConfig()
-    const components = updateDecorations(editor, config)
-    cachedComponents.set(editor.document.uri.toString(), components)
-    return components
+    return updateDecorations(editor, getConfig())
   }
 
-  const triggerUpdate = (editor: vscode.TextEditor, throttle = false) => {
-    if (timeout) {
-      clearTimeout(timeout)
-      timeout = undefined
-    }
-
-    if (throttle) {
-      timeout = setTimeout(() => update(editor), 500)
-    } else {
-      update(editor)
+  // Update every visible editor showing the document, e.g. both panes of a split view
+  const updateDocument = (document: vscode.TextDocument) => {
+    timeouts.delete(document.uri.toString())
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (editor.document === document) {
+        update(editor)
+      }
     }
+    onDidUpdateDocument?.(document)
   }
 
-  // Update on active editor change
-  const activeEditorListener = vscode.window.onDidChangeActiveTextEditor(
-    (editor) => {
-      if (editor && isSupportedLanguage(editor.document.languageId)) {
-        triggerUpdate(editor)
+  const updateAll = () => {
+    pruneEditors(vscode.window.visibleTextEditors)
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (isSupportedLanguage(editor.document.languageId)) {
+        update(editor)
+        onDidUpdateDocument?.(editor.document)
       }
     }
-  )
+  }
+
+  // Update when editors are opened, closed or split, including both sides of a diff
+  const visibleEditorsListener = vscode.window.onDidChangeVisibleTextEditors(() => {
+    updateAll()
+  })
 
   // Update on document change
-  const documentChangeListener = vscode.workspace.onDidChangeTextDocument(
-    (event) => {
-      const editor = vscode.window.activeTextEditor
-      if (
-        editor &&
-        event.document === editor.document &&
-        isSupportedLanguage(editor.document.languageId)
-      ) {
-        triggerUpdate(editor, true)
-      }
+  const documentChangeListener = vscode.workspace.onDidChangeTextDocument((event) => {
+    const { document } = event
+    if (
+      !isSupportedLanguage(document.languageId) ||
+      !vscode.window.visibleTextEditors.some((editor) => editor.document === document)
+    ) {
+      return
     }
-  )
 
-  // Initial update
-  if (vscode.window.activeTextEditor) {
-    const editor = vscode.window.activeTextEditor
-    if (isSupportedLanguage(editor.document.languageId)) {
-      triggerUpdate(editor)
+    const uri = document.uri.toString()
+    const timeout = timeouts.get(uri)
+    if (timeout) {
+      clearTimeout(timeout)
     }
-  }
+    timeouts.set(uri, setTimeout(() => updateDocument(document), 500))
+  })
 
-  context.subscriptions.push(activeEditorListener, documentChangeListener)
+  // Initial update
+  updateAll()
+
+  context.subscriptions.push(
+    visibleEditorsListener,
+    documentChangeListener,
+    retainIconPaths(() => decorationIconPaths.values())
+  )
 
   return {
     update,
+    updateAll,
     dispose: () => {
       clearDecorations()
-      if (timeout) {
+      for (const timeout of timeouts.values()) {
         clearTimeout(timeout)
       }
+      timeouts.clear()
     },
   }
 }
@@ -249,8 +325,19 @@ export function createDecorationProvider(context: vscode.ExtensionContext): {
  * Check if the language is supported
  */
 function isSupportedLanguage(languageId: string): boolean {
-  return ['typescriptreact', 'javascriptreact', 'typescript', 'javascript', 'xml', 'svg'].includes(
-    languageId
-  )
+  return [
+    'typescriptreact',
+    'javascriptreact',
+    'typescript',
+    'javascript',
+    'xml',
+    'svg',
+    'vue',
+    'svelte',
+    'html',
+    'css',
+    'scss',
+    'less',
+  ].includes(languageId)
 }
 
@@ -0,0 +1,150 @@
+/**
+ * Diagnostics - Report icon problems found by the parser in the Problems panel
+ */
+
+import * as vscode from 'vscode'
+import { SvgIssueRule } from './svgParser'
+import { getDocumentComponents } from './documentModel'
+import { resolveFillColor } from './themeColor'
+
+type RuleSeverity = 'error' | 'warning' | 'information' | 'hint' | 'off'
+
+const DEFAULT_RULE_SEVERITIES: Record<SvgIssueRule, RuleSeverity> = {
+  missingViewBox: 'warning',
+  hardcodedColor: 'information',
+  droppedExpression: 'warning',
+  duplicateId: 'warning',
+}
+
+const SEVERITY_MAP: Record<Exclude<RuleSeverity, 'off'>, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint,
+}
+
+// Documents the user edits; git, output and other virtual documents aren't checked
+const DIAGNOSTIC_SCHEMES = new Set(['file', 'untitled'])
+
+/**
+ * Create the diagnostics provider that keeps icon problems up to date for open documents
+ */
+export function createDiagnosticsProvider(context: vscode.ExtensionContext): {
+  refresh: () => void
+  dispose: () => void
+} {
+  const collection = vscode.languages.createDiagnosticCollection('reactSvgPreview')
+  const timeouts: Map<string, NodeJS.Timeout> = new Map()
+
+  const update = (document: vscode.TextDocument) => {
+    const uri = document.uri.toString()
+    const config = vscode.workspace.getConfiguration('reactSvgPreview')
+
+    if (
+      !config.get<boolean>('enabled', true) ||
+      !DIAGNOSTIC_SCHEMES.has(document.uri.scheme) ||
+      !isSupportedLanguage(document.languageId)
+    ) {
+      collection.delete(document.uri)
+      return
+    }
+
+    const severities = {
+      ...DEFAULT_RULE_SEVERITIES,
+      ...config.get<Partial<Record<SvgIssueRule, RuleSeverity>>>('diagnostics', {}),
+    }
+
+    const components = getDocumentComponents(document, resolveFillColor(config))
+
+    const diagnostics: vscode.Diagnostic[] = []
+    for (const component of components) {
+      for (const issue of component.issues ?? []) {
+        const severity = severities[issue.rule]
+        if (!severity || severity === 'off') {
+          continue
+        }
+
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(issue.startLine, issue.startCharacter, issue.endLine, issue.endCharacter),
+          `${component.name}: ${issue.message}`,
+          SEVERITY_MAP[severity]
+        )
+        diagnostic.source = 'React SVG Preview'
+        diagnostic.code = issue.rule
+        diagnostics.push(diagnostic)
+      }
+    }
+
+    collection.set(document.uri, diagnostics)
+    timeouts.delete(uri)
+  }
+
+  const triggerUpdate = (document: vscode.TextDocument, throttle = false) => {
+    const uri = document.uri.toString()
+    const timeout = timeouts.get(uri)
+    if (timeout) {
+      clearTimeout(timeout)
+      timeouts.delete(uri)
+    }
+
+    if (throttle) {
+      timeouts.set(uri, setTimeout(() => update(document), 500))
+    } else {
+      update(document)
+    }
+  }
+
+  const refresh = () => {
+    for (const document of vscode.workspace.textDocuments) {
+      triggerUpdate(document)
+    }
+  }
+
+  const openListener = vscode.workspace.onDidOpenTextDocument((document) => {
+    triggerUpdate(document)
+  })
+
+  const changeListener = vscode.workspace.onDidChangeTextDocument((event) => {
+    triggerUpdate(event.document, true)
+  })
+
+  const closeListener = vscode.workspace.onDidCloseTextDocument((document) => {
+    const timeout = timeouts.get(document.uri.toString())
+    if (timeout) {
+      clearTimeout(timeout)
+      timeouts.delete(document.uri.toString())
+    }
+    collection.delete(document.uri)
+  })
+
+  // Initial update for already open documents
+  refresh()
+
+  context.subscriptions.push(collection, openListener, changeListener, closeListener)
+
+  return {
+    refresh,
+    dispose: () => {
+      for (const timeout of timeouts.values()) {
+        clearTimeout(timeout)
+      }
+      timeouts.clear()
+      collection.clear()
+    },
+  }
+}
+
+/**
+ * Check if the language can contain React icon components
+ */
+function isSupportedLanguage(languageId: string): boolean {
+  return [
+    'typescriptreact',
+    'javascriptreact',
+    'typescript',
+    'javascript',
+    'vue',
+    'svelte',
+    'html',
+  ].includes(languageId)
+}
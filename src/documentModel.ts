@@ -0,0 +1,212 @@
+/**
+ * Document Model - Parsed icon components and usages per document, shared by all providers
+ *
+ * Each document keeps its syntax tree, which is updated incrementally on edits, and the
+ * SVG conversions of its components, which are reused for components that didn't change.
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import * as ts from 'typescript'
+import {
+  ParsedSvgComponent,
+  SvgConversion,
+  parseSvgComponents,
+  parseRawSvgFile,
+  isRawSvgContent,
+  parseSourceFile,
+  updateSourceFile,
+} from './svgParser'
+import { SvgComponentUsage, findSvgComponentUsages } from './usageResolver'
+import { getTemplateFramework, parseTemplateComponents } from './templateParser'
+import { parseDataUriComponents } from './dataUriParser'
+import { resolveFillColor } from './themeColor'
+
+interface DocumentModel {
+  /** Document version the components were parsed from */
+  version: number
+  fileName: string
+  defaultFillColor: string
+  /** Syntax tree of the parsed version; not set for raw SVG files, templates and stylesheets */
+  sourceFile?: ts.SourceFile
+  conversions: Map<string, SvgConversion>
+  components: ParsedSvgComponent[]
+  /** Resolved usages, computed on first use */
+  usages?: SvgComponentUsage[]
+}
+
+// Models by document URI
+const models: Map<string, DocumentModel> = new Map()
+
+// Stylesheets and HTML files other than Angular templates, where only data URIs are previewed
+const DATA_URI_LANGUAGES = new Set(['css', 'scss', 'less', 'html'])
+
+/**
+ * Add the SVG data URIs of the text to parsed components, in line order
+ */
+function withDataUris(
+  components: ParsedSvgComponent[],
+  text: string,
+  defaultFillColor: string
+): ParsedSvgComponent[] {
+  const dataUris = parseDataUriComponents(text, { defaultFillColor })
+  if (dataUris.length === 0) {
+    return components
+  }
+  return [...components, ...dataUris].sort((a, b) => a.startLine - b.startLine)
+}
+
+/**
+ * Get the model of a document, reparsing it if it changed since the last call
+ */
+function getModel(document: vscode.TextDocument, defaultFillColor: string): DocumentModel {
+  const uri = document.uri.toString()
+  const fileName = path.basename(document.fileName)
+  const existing = models.get(uri)
+
+  if (
+    existing &&
+    existing.version === document.version &&
+    existing.fileName === fileName &&
+    existing.defaultFillColor === defaultFillColor
+  ) {
+    return existing
+  }
+
+  const text = document.getText()
+  const framework = getTemplateFramework(document.fileName, document.languageId)
+  let model: DocumentModel
+
+  if (framework) {
+    model = {
+      version: document.version,
+      fileName,
+      defaultFillColor,
+      conversions: new Map(),
+      components: withDataUris(
+        parseTemplateComponents(text, fileName, framework, { defaultFillColor }),
+        text,
+        defaultFillColor
+      ),
+    }
+  } else if (DATA_URI_LANGUAGES.has(document.languageId) || /\.(?:css|scss|less|html?)$/.test(fileName)) {
+    model = {
+      version: document.version,
+      fileName,
+      defaultFillColor,
+      conversions: new Map(),
+      components: parseDataUriComponents(text, { defaultFillColor }),
+    }
+  } else if (isRawSvgContent(text) || fileName.endsWith('.svg')) {
+    model = {
+      version: document.version,
+      fileName,
+      defaultFillColor,
+      conversions: new Map(),
+      components: parseRawSvgFile(text, fileName),
+    }
+  } else {
+    // Reuse the previous tree so only the edited region is reparsed
+    const sourceFile =
+      existing?.sourceFile && existing.fileName === fileName
+        ? updateSourceFile(existing.sourceFile, text)
+        : parseSourceFile(text, fileName)
+    const conversions = existing?.conversions ?? new Map()
+    const config = vscode.workspace.getConfiguration('reactSvgPreview')
+    const pathViewBox = config.get<string>('defaultPathViewBox', '0 0 24 24')
+    const embeddedSvg = {
+      minSize: config.get<number>('embeddedSvgMinSize', 12),
+      minElements: config.get<number>('embeddedSvgMinElements', 1),
+    }
+
+    model = {
+      version: document.version,
+      fileName,
+      defaultFillColor,
+      sourceFile,
+      conversions,
+      components: withDataUris(
+        parseSvgComponents(text, {
+          defaultFillColor,
+          fileName,
+          pathViewBox,
+          sourceFile,
+          conversions,
+          embeddedSvg,
+        }),
+        text,
+        defaultFillColor
+      ),
+    }
+  }
+
+  models.set(uri, model)
+  return model
+}
+
+/**
+ * Get the fill color previews use for currentColor
+ */
+function getDefaultFillColor(): string {
+  return resolveFillColor(vscode.workspace.getConfiguration('reactSvgPreview'))
+}
+
+/**
+ * Get the icon components of a document
+ */
+export function getDocumentComponents(
+  document: vscode.TextDocument,
+  defaultFillColor = getDefaultFillColor()
+): ParsedSvgComponent[] {
+  return getModel(document, defaultFillColor).components
+}
+
+/**
+ * Get the resolved icon usages of a document
+ */
+export function getDocumentUsages(
+  document: vscode.TextDocument,
+  defaultFillColor = getDefaultFillColor()
+): SvgComponentUsage[] {
+  const model = getModel(document, defaultFillColor)
+
+  if (document.uri.scheme !== 'file' || !model.sourceFile) {
+    return []
+  }
+
+  if (!model.usages) {
+    model.usages = findSvgComponentUsages(document.getText(), document.fileName, model.components, {
+      defaultFillColor,
+      sourceFile: model.sourceFile,
+    })
+  }
+
+  return model.usages
+}
+
+/**
+ * Forget resolved usages, e.g. after an imported definition changed
+ */
+export function clearDocumentUsages(): void {
+  for (const model of models.values()) {
+    model.usages = undefined
+  }
+}
+
+/**
+ * Forget all parsed documents
+ */
+export function clearDocumentModels(): void {
+  models.clear()
+}
+
+/**
+ * Drop the models of closed documents
+ */
+export function registerDocumentModels(context: vscode.ExtensionContext): void {
+  const closeListener = vscode.workspace.onDidCloseTextDocument((document) => {
+    models.delete(document.uri.toString())
+  })
+
+  context.subscriptions.push(closeListener)
+}
@@ -0,0 +1,235 @@
+/**
+ * Duplicate Icons - Report of identical and near-identical icons across the workspace
+ */
+
+import * as vscode from 'vscode'
+import { GalleryEntry, scanWorkspace, revealEntry } from './gallery'
+import { getSvgFingerprint } from './svgOptimizer'
+import { svgToDataUri, escapeHtml, createNonce } from './utils'
+import { resolveFillColor } from './themeColor'
+
+const FIND_DUPLICATES_COMMAND = 'reactSvgPreview.findDuplicateIcons'
+
+interface DuplicateGroup {
+  /** Identical icons draw the same shapes in the same colors; similar ones differ slightly */
+  kind: 'identical' | 'similar'
+  entries: GalleryEntry[]
+}
+
+let currentPanel: vscode.WebviewPanel | undefined
+let currentGroups: DuplicateGroup[] = []
+
+/**
+ * Group icons that draw the same shapes. Icons match exactly when their fingerprints are
+ * equal, and nearly when they are equal at a lower precision with colors ignored. Exact
+ * matches are reported as identical groups; a near match lists one icon of each variant.
+ */
+function findDuplicateGroups(
+  entries: GalleryEntry[],
+  options: { precision: number; similarPrecision: number; currentColor: string }
+): DuplicateGroup[] {
+  // Icons by similar fingerprint, then by exact fingerprint
+  const groups: Map<string, Map<string, GalleryEntry[]>> = new Map()
+
+  for (const entry of entries) {
+    try {
+      const exact = getSvgFingerprint(entry.component.svg, {
+        precision: options.precision,
+        currentColor: options.currentColor,
+      })
+      // Empty icons all look alike
+      if (!/^<svg\b[^>]*>[\s\S]+<\/svg>$/.test(exact)) {
+        continue
+      }
+      const similar = getSvgFingerprint(entry.component.svg, {
+        precision: options.similarPrecision,
+        currentColor: options.currentColor,
+        ignoreColors: true,
+      })
+
+      const variants = groups.get(similar) ?? new Map<string, GalleryEntry[]>()
+      variants.set(exact, [...(variants.get(exact) ?? []), entry])
+      groups.set(similar, variants)
+    } catch (error) {
+      // Markup the tokenizer can't read is left out of the report
+      console.error(`Failed to compare ${entry.component.name}:`, error)
+    }
+  }
+
+  const duplicates: DuplicateGroup[] = []
+  for (const variants of groups.values()) {
+    for (const variant of variants.values()) {
+      if (variant.length > 1) {
+        duplicates.push({ kind: 'identical', entries: variant })
+      }
+    }
+    if (variants.size > 1) {
+      duplicates.push({ kind: 'similar', entries: Array.from(variants.values(), (variant) => variant[0]) })
+    }
+  }
+
+  return duplicates.sort((a, b) => {
+    // Identical icons first, then the largest groups
+    if (a.kind !== b.kind) {
+      return a.kind === 'identical' ? -1 : 1
+    }
+    return b.entries.length - a.entries.length
+  })
+}
+
+/**
+ * Build the report HTML: one row of side-by-side previews per group
+ */
+function getReportHtml(groups: DuplicateGroup[], scanned: number, previewSize: number): string {
+  const nonce = createNonce()
+
+  const sections = groups
+    .map((group, groupIndex) => {
+      const cards = group.entries
+        .map((entry, entryIndex) => {
+          const { component, uri } = entry
+          const location = `${vscode.workspace.asRelativePath(uri)}:${component.startLine + 1}`
+          return `<button class="card" data-group="${groupIndex}" data-entry="${entryIndex}" title="Open ${escapeHtml(location)}">
+          <img src="${svgToDataUri(component.svg)}" alt="" />
+          <span class="name">${escapeHtml(component.name)}</span>
+          <span class="location">${escapeHtml(location)}</span>
+        </button>`
+        })
+        .join('\n')
+      const title =
+        group.kind === 'identical'
+          ? `${group.entries.length} identical icons`
+          : `${group.entries.length} similar icons`
+      return `<section>
+      <h3>${title}</h3>
+      <div class="row">
+        ${cards}
+      </div>
+    </section>`
+    })
+    .join('\n')
+
+  const identical = groups.filter((group) => group.kind === 'identical').length
+  const summary =
+    groups.length > 0
+      ? `${identical} groups of identical and ${groups.length - identical} groups of similar icons among ${scanned} icons`
+      : `No duplicate icons among ${scanned} icons`
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <style nonce="${nonce}">
+    body { padding: 0 16px 16px; font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .summary { padding: 12px 0; opacity: 0.7; }
+    h3 { margin: 16px 0 8px; font-size: 13px; }
+    .row { display: flex; flex-wrap: wrap; gap: 8px; }
+    .card { display: flex; flex-direction: column; align-items: center; gap: 4px; width: calc(var(--size) + 120px); padding: 12px 4px; color: inherit; background: transparent; border: 1px solid var(--vscode-panel-border); border-radius: 4px; cursor: pointer; }
+    .card:hover { border-color: var(--vscode-focusBorder); }
+    .card img { width: var(--size); height: var(--size); object-fit: contain; }
+    .card .name, .card .location { max-width: 100%; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .card .location { font-size: 11px; opacity: 0.7; }
+  </style>
+</head>
+<body>
+  <div class="summary">${summary}</div>
+  <div id="groups">
+    ${sections}
+  </div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi()
+
+    // Inline style attributes are blocked by the CSP, so size is set from script
+    document.getElementById('groups').style.setProperty('--size', '${previewSize}px')
+
+    for (const card of document.querySelectorAll('.card')) {
+      card.addEventListener('click', () => {
+        vscode.postMessage({
+          command: 'open',
+          group: Number(card.dataset.group),
+          entry: Number(card.dataset.entry),
+        })
+      })
+    }
+  </script>
+</body>
+</html>`
+}
+
+/**
+ * Scan the workspace and open (or refresh) the duplicate icon report
+ */
+async function findDuplicateIcons(context: vscode.ExtensionContext): Promise<void> {
+  const config = vscode.workspace.getConfiguration('reactSvgPreview')
+  const defaultFillColor = resolveFillColor(config)
+  const pathViewBox = config.get<string>('defaultPathViewBox', '0 0 24 24')
+  const precision = config.get<number>('optimizerPrecision', 3)
+  const similarPrecision = config.get<number>('duplicateIconPrecision', 1)
+  const hoverPreviewSize = config.get<number>('hoverPreviewSize', 128)
+  const previewSize = Math.min(Math.max(hoverPreviewSize / 2, 16), 128)
+
+  const entries = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'React SVG Preview: Scanning workspace for duplicate icons',
+      cancellable: true,
+    },
+    (_progress, token) => scanWorkspace({ defaultFillColor, pathViewBox }, token)
+  )
+  const groups = findDuplicateGroups(entries, {
+    precision,
+    similarPrecision,
+    currentColor: defaultFillColor,
+  })
+
+  if (!currentPanel) {
+    currentPanel = vscode.window.createWebviewPanel(
+      'reactSvgPreview.duplicates',
+      'Duplicate Icons',
+      vscode.ViewColumn.Active,
+      { enableScripts: true, retainContextWhenHidden: true }
+    )
+
+    currentPanel.webview.onDidReceiveMessage(
+      (message: { command: string; group: number; entry: number }) => {
+        const entry = currentGroups[message.group]?.entries[message.entry]
+        if (message.command === 'open' && entry) {
+          revealEntry(entry).catch((error) => {
+            vscode.window.showErrorMessage(
+              `React SVG Preview: Failed to open ${vscode.workspace.asRelativePath(entry.uri)}: ${error}`
+            )
+          })
+        }
+      },
+      undefined,
+      context.subscriptions
+    )
+
+    currentPanel.onDidDispose(
+      () => {
+        currentPanel = undefined
+        currentGroups = []
+      },
+      undefined,
+      context.subscriptions
+    )
+  } else {
+    currentPanel.reveal()
+  }
+
+  currentGroups = groups
+  currentPanel.webview.html = getReportHtml(groups, entries.length, previewSize)
+}
+
+/**
+ * Register the duplicate icon report command
+ */
+export function createDuplicateIconsCommand(context: vscode.ExtensionContext): void {
+  const command = vscode.commands.registerCommand(FIND_DUPLICATES_COMMAND, () =>
+    findDuplicateIcons(context)
+  )
+
+  context.subscriptions.push(command)
+}
@@ -0,0 +1,173 @@
+/**
+ * Export SVG - Save React icon components as standalone .svg files
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { parseSvgComponents, findComponentAtLine, componentToSvgDocument } from './svgParser'
+import { getDocumentComponents } from './documentModel'
+import { toKebabName } from './utils'
+
+const EXPORT_COMMAND = 'reactSvgPreview.exportComponentSvg'
+const EXPORT_ALL_COMMAND = 'reactSvgPreview.exportAllSvgs'
+
+// Files searched when exporting a folder
+const EXPORT_INCLUDE = '**/*.{tsx,jsx,ts,js}'
+const EXPORT_EXCLUDE = '**/{node_modules,out,dist,build,.git}/**'
+
+/**
+ * Provide an "export to .svg" action on detected icon components
+ */
+class ExportSvgActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.Refactor]
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection
+  ): vscode.CodeAction[] {
+    const component = findComponentAtLine(getDocumentComponents(document), range.start.line)
+    if (!component) {
+      return []
+    }
+
+    const action = new vscode.CodeAction(
+      `Export ${component.name} to .svg file`,
+      vscode.CodeActionKind.Refactor
+    )
+    action.command = {
+      command: EXPORT_COMMAND,
+      title: action.title,
+      arguments: [document.uri, component.name],
+    }
+    return [action]
+  }
+}
+
+/**
+ * Export one component to a .svg file chosen in a save dialog.
+ * Without arguments, the component at the cursor (or one picked from a list) is exported.
+ */
+async function exportComponentSvg(uri?: vscode.Uri, componentName?: string): Promise<void> {
+  const editor = vscode.window.activeTextEditor
+  const document = uri ? await vscode.workspace.openTextDocument(uri) : editor?.document
+  if (!document) {
+    return
+  }
+
+  const components = getDocumentComponents(document)
+  let component = componentName
+    ? components.find((c) => c.name === componentName)
+    : editor?.document === document
+      ? findComponentAtLine(components, editor.selection.active.line)
+      : undefined
+
+  if (!component && !componentName && components.length > 0) {
+    const picked = await vscode.window.showQuickPick(
+      components.map((c) => ({ label: c.name, component: c })),
+      { placeHolder: 'Select an icon component to export' }
+    )
+    component = picked?.component
+    if (!component) {
+      return
+    }
+  }
+
+  if (!component) {
+    vscode.window.showWarningMessage('React SVG Preview: No SVG component found to export')
+    return
+  }
+
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(
+      path.join(path.dirname(document.fileName), `${toKebabName(component.name) || 'icon'}.svg`)
+    ),
+    filters: { SVG: ['svg'] },
+  })
+  if (!target) {
+    return
+  }
+
+  await vscode.workspace.fs.writeFile(target, Buffer.from(`${componentToSvgDocument(component)}\n`))
+  vscode.window.showInformationMessage(
+    `React SVG Preview: Exported ${component.name} to ${vscode.workspace.asRelativePath(target)}`
+  )
+}
+
+/**
+ * Export every component in a file or folder to a target directory, one .svg file per component
+ */
+async function exportAllSvgs(uri?: vscode.Uri): Promise<void> {
+  const source = uri ?? vscode.window.activeTextEditor?.document.uri
+  if (!source) {
+    return
+  }
+
+  const stat = await vscode.workspace.fs.stat(source)
+  const files =
+    stat.type & vscode.FileType.Directory
+      ? await vscode.workspace.findFiles(
+          new vscode.RelativePattern(source, EXPORT_INCLUDE),
+          EXPORT_EXCLUDE
+        )
+      : [source]
+
+  const targets = await vscode.window.showOpenDialog({
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    openLabel: 'Export SVGs here',
+  })
+  if (!targets || targets.length === 0) {
+    return
+  }
+  const targetDir = targets[0]
+
+  const usedNames = new Set<string>()
+  let exported = 0
+
+  for (const file of files) {
+    const text = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8')
+    const components = parseSvgComponents(text, { fileName: path.basename(file.fsPath) })
+
+    for (const component of components) {
+      // Components with the same name in different files get a numeric suffix
+      const baseName = toKebabName(component.name) || 'icon'
+      let fileName = `${baseName}.svg`
+      for (let i = 2; usedNames.has(fileName); i++) {
+        fileName = `${baseName}-${i}.svg`
+      }
+      usedNames.add(fileName)
+
+      await vscode.workspace.fs.writeFile(
+        vscode.Uri.joinPath(targetDir, fileName),
+        Buffer.from(`${componentToSvgDocument(component)}\n`)
+      )
+      exported++
+    }
+  }
+
+  vscode.window.showInformationMessage(
+    `React SVG Preview: Exported ${exported} SVG files to ${vscode.workspace.asRelativePath(targetDir)}`
+  )
+}
+
+/**
+ * Register the export code action provider and commands
+ */
+export function createExportSvgProvider(context: vscode.ExtensionContext): void {
+  const provider = vscode.languages.registerCodeActionsProvider(
+    [
+      { language: 'typescriptreact', scheme: 'file' },
+      { language: 'javascriptreact', scheme: 'file' },
+      { language: 'typescript', scheme: 'file' },
+      { language: 'javascript', scheme: 'file' },
+    ],
+    new ExportSvgActionProvider(),
+    { providedCodeActionKinds: ExportSvgActionProvider.providedCodeActionKinds }
+  )
+
+  const exportCommand = vscode.commands.registerCommand(EXPORT_COMMAND, exportComponentSvg)
+  const exportAllCommand = vscode.commands.registerCommand(EXPORT_ALL_COMMAND, exportAllSvgs)
+
+  context.subscriptions.push(provider, exportCommand, exportAllCommand)
+}
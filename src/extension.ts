@@ -10,14 +10,33 @@ import {
   createDecorationProvider,
   clearDecorations,
 } from './decorationProvider'
-import {
-  createHoverProvider,
-  clearComponentCache,
-  updateComponentCache,
-} from './hoverProvider'
+import { createHoverProvider } from './hoverProvider'
 import { parseSvgComponents } from './svgParser'
+import { createDefinitionWatcher, clearDefinitionCache } from './usageResolver'
+import { openGallery } from './gallery'
+import { createIconTreeView } from './iconTreeView'
+import { initOutputChannel } from './outputChannel'
+import { createDuplicateIconsCommand } from './duplicateIcons'
+import { createDiagnosticsProvider } from './diagnostics'
+import { createConvertToComponentProvider } from './convertToComponent'
+import { createExportSvgProvider } from './exportSvg'
+import { createIconLibraryCommand } from './iconLibrary'
+import { createNormalizeColorsProvider } from './normalizeColors'
+import { createOptimizeSvgProvider } from './optimizeSvg'
+import { initIconCache, clearIconCache } from './iconCache'
+import { createSpriteIndex } from './spriteIndex'
+import { createDataUriProvider } from './dataUri'
+import { registerHoverActions } from './hoverActions'
+import {
+  registerDocumentModels,
+  clearDocumentModels,
+  clearDocumentUsages,
+  getDocumentComponents,
+} from './documentModel'
 
 let decorationProvider: ReturnType<typeof createDecorationProvider> | undefined
+let diagnosticsProvider: ReturnType<typeof createDiagnosticsProvider> | undefined
+let iconTreeView: ReturnType<typeof createIconTreeView> | undefined
 
 /**
  * Called when the extension is activated
@@ -25,11 +44,51 @@ let decorationProvider: ReturnType<typeof createDecorationProvider> | undefined
 export function activate(context: vscode.ExtensionContext): void {
   console.log('React SVG Preview extension is now active')
 
+  // Log failures where users can see them
+  initOutputChannel(context)
+
+  // Store gutter and hover images in the extension's storage
+  initIconCache(context)
+
+  // Share parsed documents between providers
+  registerDocumentModels(context)
+
+  // Create the Explorer icon view, updated along with the decorations
+  iconTreeView = createIconTreeView(context)
+
   // Create decoration provider
-  decorationProvider = createDecorationProvider(context)
+  decorationProvider = createDecorationProvider(context, (document) => iconTreeView?.updateDocument(document))
 
-  // Create hover provider
+  // Create hover provider, with copy / save / preview links
   createHoverProvider(context)
+  registerHoverActions(context)
+
+  // Create diagnostics provider
+  diagnosticsProvider = createDiagnosticsProvider(context)
+
+  // Register convert-to-component code actions
+  createConvertToComponentProvider(context)
+
+  // Register export-to-SVG code actions
+  createExportSvgProvider(context)
+
+  // Register the icon library generator
+  createIconLibraryCommand(context)
+
+  // Register hard-coded color quick fixes
+  createNormalizeColorsProvider(context)
+
+  // Register SVG optimizer code actions
+  createOptimizeSvgProvider(context)
+
+  // Register data URI decode/encode code actions
+  createDataUriProvider(context)
+
+  // Re-resolve icon usages when an imported definition file changes
+  createDefinitionWatcher(context, () => {
+    clearDocumentUsages()
+    decorationProvider?.updateAll()
+  })
 
   // Register toggle command
   const toggleCommand = vscode.commands.registerCommand(
@@ -41,14 +100,13 @@ export function activate(context: vscode.ExtensionContext): void {
 
       if (!currentValue) {
         // Re-enable: update decorations
-        if (vscode.window.activeTextEditor) {
-          decorationProvider?.update(vscode.window.activeTextEditor)
-        }
+        decorationProvider?.updateAll()
         vscode.window.showInformationMessage('React SVG Preview enabled')
       } else {
         // Disable: clear decorations
         clearDecorations()
-        clearComponentCache()
+        clearDocumentModels()
+        clearDefinitionCache()
         vscode.window.showInformationMessage('React SVG Preview disabled')
       }
     }
@@ -59,47 +117,68 @@ export function activate(context: vscode.ExtensionContext): void {
     'reactSvgPreview.refresh',
     () => {
       clearDecorations()
-      clearComponentCache()
+      clearDocumentModels()
+      clearDefinitionCache()
+      decorationProvider?.updateAll()
 
       if (vscode.window.activeTextEditor) {
-        const components = decorationProvider?.update(vscode.window.activeTextEditor)
-        if (components) {
-          updateComponentCache(vscode.window.activeTextEditor.document, components)
-        }
+        const components = getDocumentComponents(vscode.window.activeTextEditor.document)
         vscode.window.showInformationMessage(
-          `React SVG Preview: Found ${components?.length ?? 0} SVG components`
+          `React SVG Preview: Found ${components.length} SVG components`
         )
       }
     }
   )
 
+  // Register gallery command
+  const galleryCommand = vscode.commands.registerCommand(
+    'reactSvgPreview.openGallery',
+    () => openGallery(context)
+  )
+
+  // Register the duplicate icon report
+  createDuplicateIconsCommand(context)
+
+  // Regenerate all previews, e.g. after settings or the color theme changed. The icon view
+  // rescans the workspace itself when its colors changed, or when asked to after sprites did.
+  const regeneratePreviews = (rescanIcons = false) => {
+    clearDecorations()
+    clearDocumentModels()
+    clearDefinitionCache()
+    diagnosticsProvider?.refresh()
+    decorationProvider?.updateAll()
+    iconTreeView?.refresh(rescanIcons)
+  }
+
+  // Index sprite sheets so <use href="sprite.svg#id"> icons preview their symbol
+  createSpriteIndex(context, () => regeneratePreviews(true))
+
   // Listen for configuration changes
   const configChangeListener = vscode.workspace.onDidChangeConfiguration(
     (event) => {
-      if (event.affectsConfiguration('reactSvgPreview')) {
-        clearDecorations()
-        clearComponentCache()
-
-        if (vscode.window.activeTextEditor) {
-          const components = decorationProvider?.update(vscode.window.activeTextEditor)
-          if (components) {
-            updateComponentCache(vscode.window.activeTextEditor.document, components)
-          }
-        }
+      // Inline icons are sized to the editor line height
+      if (
+        event.affectsConfiguration('reactSvgPreview') ||
+        event.affectsConfiguration('editor.fontSize') ||
+        event.affectsConfiguration('editor.lineHeight')
+      ) {
+        regeneratePreviews()
       }
     }
   )
 
-  context.subscriptions.push(toggleCommand, refreshCommand, configChangeListener)
+  // Listen for color theme changes so currentColor follows the theme
+  const themeChangeListener = vscode.window.onDidChangeActiveColorTheme(() => {
+    regeneratePreviews()
+  })
 
-  // Initial scan if there's an active editor
-  if (vscode.window.activeTextEditor) {
-    const editor = vscode.window.activeTextEditor
-    if (isSupportedLanguage(editor.document.languageId)) {
-      const components = decorationProvider.update(editor)
-      updateComponentCache(editor.document, components)
-    }
-  }
+  context.subscriptions.push(
+    toggleCommand,
+    refreshCommand,
+    galleryCommand,
+    configChangeListener,
+    themeChangeListener
+  )
 }
 
 /**
@@ -108,15 +187,10 @@ export function activate(context: vscode.ExtensionContext): void {
 export function deactivate(): void {
   console.log('React SVG Preview extension is now deactivated')
   decorationProvider?.dispose()
+  diagnosticsProvider?.dispose()
   clearDecorations()
-  clearComponentCache()
+  clearDocumentModels()
+  clearDefinitionCache()
+  clearIconCache()
 }
 
-/**
- * Check if the language is supported
- */
-function isSupportedLanguage(languageId: string): boolean {
-  return ['typescriptreact', 'javascriptreact', 'typescript', 'javascript', 'xml', 'svg'].includes(
-    languageId
-  )
-}
@@ -0,0 +1,257 @@
+/**
+ * Gallery - Webview grid of every SVG icon in the workspace
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { ParsedSvgComponent, parseSvgComponents, parseRawSvgFile, isRawSvgContent } from './svgParser'
+import { svgToDataUri, escapeHtml, createNonce } from './utils'
+import { resolveFillColor } from './themeColor'
+import { getTemplateFramework, parseTemplateComponents } from './templateParser'
+import { parseDataUriComponents } from './dataUriParser'
+import { logError } from './outputChannel'
+
+export interface GalleryEntry {
+  component: ParsedSvgComponent
+  uri: vscode.Uri
+}
+
+// Files scanned for icons
+export const GALLERY_INCLUDE = '**/*.{tsx,jsx,ts,js,svg,vue,svelte,html,css,scss,less}'
+export const GALLERY_EXCLUDE = '**/{node_modules,out,dist,build,.git}/**'
+
+// Quick check to skip files that cannot contain an icon before parsing them
+const SVG_HINT_PATTERN =
+  /<(?:svg|Svg|Icon)\b|createSvgIcon\(|['"]svg['"]|styled\.svg\b|['"`]\s*M\s*[-.\d]|data:image\/svg\+xml/i
+
+let currentPanel: vscode.WebviewPanel | undefined
+let currentEntries: GalleryEntry[] = []
+
+/**
+ * Read a file from disk and parse its icon components, framework templates, SVG data URIs
+ * or raw SVG
+ */
+export async function scanFile(
+  uri: vscode.Uri,
+  options: { defaultFillColor: string; pathViewBox: string }
+): Promise<ParsedSvgComponent[]> {
+  const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')
+  if (!SVG_HINT_PATTERN.test(text)) {
+    return []
+  }
+
+  const fileName = path.basename(uri.fsPath)
+  const framework = getTemplateFramework(uri.fsPath)
+  const isRawSvg = isRawSvgContent(text) || fileName.endsWith('.svg')
+  const components: ParsedSvgComponent[] = []
+
+  if (framework) {
+    components.push(...parseTemplateComponents(text, fileName, framework, options))
+  } else if (isRawSvg) {
+    components.push(...parseRawSvgFile(text, fileName))
+  } else if (!/\.(?:css|scss|less|html?)$/.test(fileName)) {
+    components.push(...parseSvgComponents(text, { ...options, fileName }))
+  }
+  // Data URIs in stylesheets and string literals
+  if (!isRawSvg) {
+    components.push(...parseDataUriComponents(text, options))
+  }
+
+  return components
+}
+
+/**
+ * Scan the workspace for icon components, framework templates, SVG data URIs and raw .svg files
+ */
+export async function scanWorkspace(
+  options: { defaultFillColor: string; pathViewBox: string },
+  token: vscode.CancellationToken
+): Promise<GalleryEntry[]> {
+  const entries: GalleryEntry[] = []
+  const uris = await vscode.workspace.findFiles(GALLERY_INCLUDE, GALLERY_EXCLUDE, undefined, token)
+
+  for (const uri of uris) {
+    if (token.isCancellationRequested) {
+      break
+    }
+
+    try {
+      for (const component of await scanFile(uri, options)) {
+        entries.push({ component, uri })
+      }
+    } catch (error) {
+      logError(`Failed to scan ${uri.fsPath}:`, error)
+    }
+  }
+
+  entries.sort((a, b) => a.component.name.localeCompare(b.component.name))
+  return entries
+}
+
+/**
+ * Build the gallery HTML. Filtering, sizing and backgrounds are handled in the webview.
+ */
+function getGalleryHtml(entries: GalleryEntry[], previewSize: number): string {
+  const nonce = createNonce()
+
+  const tiles = entries
+    .map((entry, index) => {
+      const { component, uri } = entry
+      const location = `${vscode.workspace.asRelativePath(uri)}:${component.startLine + 1}`
+      return `<button class="tile" data-index="${index}" data-name="${escapeHtml(component.name.toLowerCase())}" title="${escapeHtml(location)}">
+        <img src="${svgToDataUri(component.svg)}" alt="" />
+        <span class="name">${escapeHtml(component.name)}</span>
+      </button>`
+    })
+    .join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <style nonce="${nonce}">
+    body { padding: 0 16px 16px; font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .toolbar { position: sticky; top: 0; display: flex; gap: 12px; align-items: center; padding: 12px 0; background: var(--vscode-editor-background); }
+    .toolbar input[type="search"] { flex: 1; padding: 4px 8px; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); }
+    .toolbar button { padding: 4px 10px; color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); border: none; cursor: pointer; }
+    .toolbar button.active { color: var(--vscode-button-foreground); background: var(--vscode-button-background); }
+    .count { opacity: 0.7; white-space: nowrap; }
+    .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(calc(var(--size) + 48px), 1fr)); gap: 8px; }
+    .tile { display: flex; flex-direction: column; align-items: center; gap: 8px; padding: 12px 4px; color: inherit; background: transparent; border: 1px solid var(--vscode-panel-border); border-radius: 4px; cursor: pointer; }
+    .tile:hover { border-color: var(--vscode-focusBorder); }
+    .tile img { width: var(--size); height: var(--size); object-fit: contain; }
+    .tile .name { max-width: 100%; overflow: hidden; font-size: 11px; text-overflow: ellipsis; white-space: nowrap; }
+    .grid.light .tile { color: #333; background: #ffffff; }
+    .grid.dark .tile { color: #ddd; background: #1e1e1e; }
+    .hidden { display: none; }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <input id="filter" type="search" placeholder="Filter icons by name" />
+    <input id="size" type="range" min="16" max="128" step="8" value="${previewSize}" />
+    <button data-background="theme" class="active">Theme</button>
+    <button data-background="light">Light</button>
+    <button data-background="dark">Dark</button>
+    <span id="count" class="count">${entries.length} icons</span>
+  </div>
+  <div id="grid" class="grid">
+    ${tiles}
+  </div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi()
+    const grid = document.getElementById('grid')
+    const tiles = Array.from(document.querySelectorAll('.tile'))
+    const count = document.getElementById('count')
+    const size = document.getElementById('size')
+
+    // Inline style attributes are blocked by the CSP, so size is set from script
+    grid.style.setProperty('--size', size.value + 'px')
+
+    document.getElementById('filter').addEventListener('input', (event) => {
+      const query = event.target.value.trim().toLowerCase()
+      let visible = 0
+      for (const tile of tiles) {
+        const match = tile.dataset.name.includes(query)
+        tile.classList.toggle('hidden', !match)
+        if (match) visible++
+      }
+      count.textContent = visible + ' icons'
+    })
+
+    size.addEventListener('input', (event) => {
+      grid.style.setProperty('--size', event.target.value + 'px')
+    })
+
+    for (const button of document.querySelectorAll('[data-background]')) {
+      button.addEventListener('click', () => {
+        for (const other of document.querySelectorAll('[data-background]')) {
+          other.classList.toggle('active', other === button)
+        }
+        grid.classList.remove('light', 'dark')
+        if (button.dataset.background !== 'theme') {
+          grid.classList.add(button.dataset.background)
+        }
+      })
+    }
+
+    for (const tile of tiles) {
+      tile.addEventListener('click', () => {
+        vscode.postMessage({ command: 'open', index: Number(tile.dataset.index) })
+      })
+    }
+  </script>
+</body>
+</html>`
+}
+
+/**
+ * Open a gallery entry in the editor at the component's start line
+ */
+export async function revealEntry(entry: GalleryEntry): Promise<void> {
+  const position = new vscode.Position(entry.component.startLine, 0)
+  await vscode.window.showTextDocument(entry.uri, {
+    viewColumn: vscode.ViewColumn.One,
+    selection: new vscode.Range(position, position),
+  })
+}
+
+/**
+ * Open (or refresh) the workspace icon gallery
+ */
+export async function openGallery(context: vscode.ExtensionContext): Promise<void> {
+  const config = vscode.workspace.getConfiguration('reactSvgPreview')
+  const defaultFillColor = resolveFillColor(config)
+  const pathViewBox = config.get<string>('defaultPathViewBox', '0 0 24 24')
+  const hoverPreviewSize = config.get<number>('hoverPreviewSize', 128)
+  const previewSize = Math.min(Math.max(hoverPreviewSize / 2, 16), 128)
+
+  const entries = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'React SVG Preview: Scanning workspace for icons',
+      cancellable: true,
+    },
+    (_progress, token) => scanWorkspace({ defaultFillColor, pathViewBox }, token)
+  )
+
+  if (!currentPanel) {
+    currentPanel = vscode.window.createWebviewPanel(
+      'reactSvgPreview.gallery',
+      'SVG Icon Gallery',
+      vscode.ViewColumn.Active,
+      { enableScripts: true, retainContextWhenHidden: true }
+    )
+
+    currentPanel.webview.onDidReceiveMessage(
+      (message: { command: string; index: number }) => {
+        const entry = currentEntries[message.index]
+        if (message.command === 'open' && entry) {
+          revealEntry(entry).catch((error) => {
+            vscode.window.showErrorMessage(
+              `React SVG Preview: Failed to open ${vscode.workspace.asRelativePath(entry.uri)}: ${error}`
+            )
+          })
+        }
+      },
+      undefined,
+      context.subscriptions
+    )
+
+    currentPanel.onDidDispose(
+      () => {
+        currentPanel = undefined
+        currentEntries = []
+      },
+      undefined,
+      context.subscriptions
+    )
+  } else {
+    currentPanel.reveal()
+  }
+
+  currentEntries = entries
+  currentPanel.webview.html = getGalleryHtml(entries, previewSize)
+}
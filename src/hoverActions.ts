@@ -0,0 +1,170 @@
+/**
+ * Hover Actions - Command links in icon hovers to copy, save or enlarge the icon
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { ParsedSvgComponent, componentToSvgDocument } from './svgParser'
+import { templateToSvgDocument } from './templateParser'
+import { openPreviewPanel } from './previewPanel'
+import { svgToDataUri, svgToBase64DataUri, svgToJsx, toKebabName } from './utils'
+
+const COPY_COMMAND = 'reactSvgPreview.copyIcon'
+const SAVE_COMMAND = 'reactSvgPreview.saveIcon'
+const PREVIEW_COMMAND = 'reactSvgPreview.openIconPreview'
+
+/**
+ * Formats an icon can be copied in
+ */
+type CopyFormat = 'svg' | 'dataUri' | 'base64' | 'jsx'
+
+const COPY_FORMAT_LABELS: Record<CopyFormat, string> = {
+  svg: 'SVG',
+  dataUri: 'data URI',
+  base64: 'base64',
+  jsx: 'JSX',
+}
+
+// Components of recent hovers by the id their command links refer to. Links can't carry
+// the component itself without repeating its markup in every link.
+const hoveredComponents: Map<number, ParsedSvgComponent> = new Map()
+const MAX_HOVERED_COMPONENTS = 50
+let nextHoverId = 0
+
+/**
+ * Convert an icon to a standalone SVG document, keeping currentColor
+ */
+function getSvgDocument(component: ParsedSvgComponent): string {
+  return component.framework
+    ? templateToSvgDocument(component, component.framework)
+    : componentToSvgDocument(component)
+}
+
+/**
+ * Get an icon in a copy format
+ */
+function formatIcon(component: ParsedSvgComponent, format: CopyFormat): string {
+  switch (format) {
+    case 'dataUri':
+      return svgToDataUri(getSvgDocument(component))
+    case 'base64':
+      return svgToBase64DataUri(getSvgDocument(component))
+    case 'jsx':
+      // Icons parsed from JSX already have it; others are converted from their SVG
+      return component.isRawSvg || component.framework
+        ? svgToJsx(getSvgDocument(component))
+        : component.rawJsx
+    default:
+      return getSvgDocument(component)
+  }
+}
+
+/**
+ * Create a markdown command link
+ */
+function commandLink(label: string, command: string, args: unknown[], tooltip: string): string {
+  return `[${label}](command:${command}?${encodeURIComponent(JSON.stringify(args))} "${tooltip}")`
+}
+
+/**
+ * Build the command links shown under an icon's hover preview
+ */
+export function createHoverActionLinks(component: ParsedSvgComponent): string {
+  const id = nextHoverId++
+  hoveredComponents.set(id, component)
+  // Forget the oldest hovers
+  for (const oldId of hoveredComponents.keys()) {
+    if (hoveredComponents.size <= MAX_HOVERED_COMPONENTS) {
+      break
+    }
+    hoveredComponents.delete(oldId)
+  }
+
+  const copyLinks = (['svg', 'dataUri', 'base64', 'jsx'] as CopyFormat[]).map((format) =>
+    commandLink(
+      `Copy ${COPY_FORMAT_LABELS[format]}`,
+      COPY_COMMAND,
+      [id, format],
+      `Copy ${component.name} as ${COPY_FORMAT_LABELS[format]}`
+    )
+  )
+
+  return [
+    ...copyLinks,
+    commandLink('Save as .svg', SAVE_COMMAND, [id], `Save ${component.name} as a .svg file`),
+    commandLink('Open preview', PREVIEW_COMMAND, [id], `Open ${component.name} in a larger preview`),
+  ].join(' · ')
+}
+
+/**
+ * Get the component a command link refers to, warning when its hover is too old
+ */
+function getHoveredComponent(id: number): ParsedSvgComponent | undefined {
+  const component = hoveredComponents.get(id)
+  if (!component) {
+    vscode.window.showWarningMessage('React SVG Preview: The icon is no longer available, hover it again')
+  }
+  return component
+}
+
+/**
+ * Copy a hovered icon to the clipboard
+ */
+async function copyIcon(id: number, format: CopyFormat = 'svg'): Promise<void> {
+  const component = getHoveredComponent(id)
+  if (!component) {
+    return
+  }
+
+  await vscode.env.clipboard.writeText(formatIcon(component, format))
+  vscode.window.setStatusBarMessage(
+    `React SVG Preview: Copied ${component.name} as ${COPY_FORMAT_LABELS[format]}`,
+    3000
+  )
+}
+
+/**
+ * Save a hovered icon to a .svg file chosen in a save dialog, next to the active file
+ */
+async function saveIcon(id: number): Promise<void> {
+  const component = getHoveredComponent(id)
+  if (!component) {
+    return
+  }
+
+  const activeFile = vscode.window.activeTextEditor?.document.uri
+  const directory =
+    activeFile?.scheme === 'file'
+      ? path.dirname(activeFile.fsPath)
+      : vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+  const fileName = `${toKebabName(component.name) || 'icon'}.svg`
+
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: directory ? vscode.Uri.file(path.join(directory, fileName)) : undefined,
+    filters: { SVG: ['svg'] },
+  })
+  if (!target) {
+    return
+  }
+
+  await vscode.workspace.fs.writeFile(target, Buffer.from(`${getSvgDocument(component)}\n`))
+  vscode.window.showInformationMessage(
+    `React SVG Preview: Saved ${component.name} to ${vscode.workspace.asRelativePath(target)}`
+  )
+}
+
+/**
+ * Register the commands behind the hover links
+ */
+export function registerHoverActions(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand(COPY_COMMAND, copyIcon),
+    vscode.commands.registerCommand(SAVE_COMMAND, saveIcon),
+    vscode.commands.registerCommand(PREVIEW_COMMAND, (id: number) => {
+      const component = getHoveredComponent(id)
+      if (component) {
+        openPreviewPanel(context, component)
+      }
+    })
+  )
+}
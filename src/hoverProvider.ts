@@ -3,46 +3,131 @@
  */
 
 import * as vscode from 'vscode'
-import { ParsedSvgComponent, parseSvgComponents, parseRawSvgFile, isRawSvgContent, findComponentAtLine } from './svgParser'
-import { getTempFilePath } from './decorationProvider'
+import { ParsedSvgComponent, findComponentAtLine } from './svgParser'
+import { findUsageAtPosition } from './usageResolver'
+import { getDocumentComponents, getDocumentUsages } from './documentModel'
+import { resolveFillColor } from './themeColor'
+import { PreviewBackground, wrapSvgWithBackground } from './utils'
+import { getIconPath } from './iconCache'
+import { resolveSpriteSymbol, symbolToSvg } from './spriteSheet'
+import { createHoverActionLinks } from './hoverActions'
 
-// Cache parsed components per document
-const componentCache: Map<string, ParsedSvgComponent[]> = new Map()
+/**
+ * Calculate preview dimensions for a size, maintaining the component's aspect ratio
+ */
+function getPreviewDimensions(
+  component: ParsedSvgComponent,
+  size: number
+): { width: number; height: number } {
+  let previewWidth = size
+  let previewHeight = size
+
+  if (component.viewBox) {
+    const viewBoxParts = component.viewBox.split(/\s+/)
+    if (viewBoxParts.length >= 4) {
+      const vbWidth = parseFloat(viewBoxParts[2])
+      const vbHeight = parseFloat(viewBoxParts[3])
+      if (vbWidth > 0 && vbHeight > 0) {
+        const aspectRatio = vbWidth / vbHeight
+        if (aspectRatio > 1) {
+          previewHeight = Math.round(size / aspectRatio)
+        } else {
+          previewWidth = Math.round(size * aspectRatio)
+        }
+      }
+    }
+  } else if (component.width && component.height) {
+    const aspectRatio = component.width / component.height
+    if (aspectRatio > 1) {
+      previewHeight = Math.round(size / aspectRatio)
+    } else {
+      previewWidth = Math.round(size * aspectRatio)
+    }
+  }
+
+  return { width: previewWidth, height: previewHeight }
+}
 
 /**
- * Update the component cache for a document
+ * Get the image file for a component rendered on a background
  */
-export function updateComponentCache(
-  document: vscode.TextDocument,
-  components: ParsedSvgComponent[]
-): void {
-  componentCache.set(document.uri.toString(), components)
+function getVariantFilePath(
+  component: ParsedSvgComponent,
+  background: PreviewBackground,
+  maxSize: number
+): string {
+  const { width, height } = getPreviewDimensions(component, maxSize)
+  return getIconPath(wrapSvgWithBackground(component.svg, background, width, height))
 }
 
 /**
- * Get cached components for a document, or parse if not cached
+ * Build a table of the component at several sizes on several backgrounds
  */
-function getComponents(
-  document: vscode.TextDocument,
-  defaultFillColor: string
-): ParsedSvgComponent[] {
-  const uri = document.uri.toString()
-  let components = componentCache.get(uri)
-
-  if (!components) {
-    const text = document.getText()
-    const fileName = document.fileName.split('/').pop() || 'unknown'
-    
-    // Check if this is a raw SVG file
-    if (isRawSvgContent(text) || fileName.endsWith('.svg')) {
-      components = parseRawSvgFile(text, fileName)
-    } else {
-      components = parseSvgComponents(text, { defaultFillColor })
-    }
-    componentCache.set(uri, components)
+function createVariantTable(
+  component: ParsedSvgComponent,
+  variants: { sizes: number[]; backgrounds: PreviewBackground[] }
+): string {
+  const maxSize = Math.max(...variants.sizes)
+  const header = variants.sizes.map((size) => `<th>${size}px</th>`).join('')
+
+  const rows = variants.backgrounds.map((background) => {
+    const fileUri = vscode.Uri.file(getVariantFilePath(component, background, maxSize))
+    const cells = variants.sizes
+      .map((size) => {
+        const { width, height } = getPreviewDimensions(component, size)
+        return `<td><img src="${fileUri.toString()}" width="${width}" height="${height}" /></td>`
+      })
+      .join('')
+    return `<tr><td><em>${background}</em></td>${cells}</tr>`
+  })
+
+  return `<table><tr><th></th>${header}</tr>${rows.join('')}</table>\n\n`
+}
+
+/**
+ * Build the hover markdown for a component preview, noting the file it is defined in
+ * when that is another file
+ */
+function createPreviewMarkdown(
+  component: ParsedSvgComponent,
+  hoverPreviewSize: number,
+  variants: { sizes: number[]; backgrounds: PreviewBackground[] },
+  definitionPath?: string
+): vscode.MarkdownString {
+  // Create hover content with SVG preview
+  const markdown = new vscode.MarkdownString()
+  markdown.isTrusted = true
+  markdown.supportHtml = true
+
+  const { width: previewWidth, height: previewHeight } = getPreviewDimensions(
+    component,
+    hoverPreviewSize
+  )
+
+  // Same content as the gutter icon, so this reuses its cached file
+  const iconUri = vscode.Uri.file(getIconPath(component.svg))
+  markdown.appendMarkdown(`**${component.name}**\n\n`)
+  markdown.appendMarkdown(`<img src="${iconUri.toString()}" width="${previewWidth}" height="${previewHeight}" />\n\n`)
+
+  if (variants.sizes.length > 0 && variants.backgrounds.length > 0) {
+    markdown.appendMarkdown(createVariantTable(component, variants))
+  }
+
+  if (component.viewBox) {
+    markdown.appendMarkdown(`*viewBox:* \`${component.viewBox}\`\n\n`)
+  }
+
+  if (component.width && component.height) {
+    markdown.appendMarkdown(`*size:* ${component.width} × ${component.height}\n\n`)
   }
 
-  return components
+  if (definitionPath) {
+    markdown.appendMarkdown(`*defined in* \`${vscode.workspace.asRelativePath(definitionPath)}\`\n\n`)
+  }
+
+  markdown.appendMarkdown(createHoverActionLinks(component))
+
+  return markdown
 }
 
 /**
@@ -59,6 +144,12 @@ export function createHoverProvider(
       { language: 'javascript', scheme: 'file' },
       { language: 'xml', scheme: 'file' },
       { language: 'svg', scheme: 'file' },
+      { language: 'vue', scheme: 'file' },
+      { language: 'svelte', scheme: 'file' },
+      { language: 'html', scheme: 'file' },
+      { language: 'css', scheme: 'file' },
+      { language: 'scss', scheme: 'file' },
+      { language: 'less', scheme: 'file' },
     ],
     {
       provideHover(
@@ -70,77 +161,81 @@ export function createHoverProvider(
         const enabled = config.get<boolean>('enabled', true)
         const showHoverPreview = config.get<boolean>('showHoverPreview', true)
         const hoverPreviewSize = config.get<number>('hoverPreviewSize', 128)
-        const defaultFillColor = config.get<string>('defaultFillColor', '#888888')
+        const defaultFillColor = resolveFillColor(config)
+        const variants = {
+          sizes: config.get<number[]>('hoverVariantSizes', [16, 24, 48]),
+          backgrounds: config.get<PreviewBackground[]>('hoverVariantBackgrounds', [
+            'light',
+            'dark',
+            'checkerboard',
+          ]),
+        }
 
         if (!enabled || !showHoverPreview) {
           return null
         }
 
-        const components = getComponents(document, defaultFillColor)
+        // A sprite reference such as "#icon-home" or "/sprite.svg#icon-home" shows its symbol
+        const referenceRange = document.getWordRangeAtPosition(position, /[\w./~@-]*#[\w:.-]+/)
+        const symbol = referenceRange && resolveSpriteSymbol(document.getText(referenceRange))
+        if (referenceRange && symbol) {
+          const markdown = createPreviewMarkdown(
+            {
+              name: `#${symbol.id}`,
+              startLine: symbol.line,
+              endLine: symbol.line,
+              rawJsx: symbolToSvg(symbol),
+              svg: symbolToSvg(symbol, defaultFillColor),
+              viewBox: symbol.viewBox,
+              isRawSvg: true,
+            },
+            hoverPreviewSize,
+            variants,
+            symbol.filePath
+          )
+          return new vscode.Hover(markdown, referenceRange)
+        }
+
+        const components = getDocumentComponents(document, defaultFillColor)
         const line = position.line
 
+        // Parsing can take a while, so skip writing preview images for a hover that's gone
+        if (token.isCancellationRequested) {
+          return null
+        }
+
         // Find component at the current line
         const component = findComponentAtLine(components, line)
 
-        if (!component) {
-          return null
-        }
+        if (component) {
+          const markdown = createPreviewMarkdown(component, hoverPreviewSize, variants)
 
-        // Create hover content with SVG preview
-        const markdown = new vscode.MarkdownString()
-        markdown.isTrusted = true
-        markdown.supportHtml = true
-
-        // Calculate preview dimensions maintaining aspect ratio
-        let previewWidth = hoverPreviewSize
-        let previewHeight = hoverPreviewSize
-        
-        if (component.viewBox) {
-          const viewBoxParts = component.viewBox.split(/\s+/)
-          if (viewBoxParts.length >= 4) {
-            const vbWidth = parseFloat(viewBoxParts[2])
-            const vbHeight = parseFloat(viewBoxParts[3])
-            if (vbWidth > 0 && vbHeight > 0) {
-              const aspectRatio = vbWidth / vbHeight
-              if (aspectRatio > 1) {
-                previewHeight = Math.round(hoverPreviewSize / aspectRatio)
-              } else {
-                previewWidth = Math.round(hoverPreviewSize * aspectRatio)
-              }
-            }
-          }
-        } else if (component.width && component.height) {
-          const aspectRatio = component.width / component.height
-          if (aspectRatio > 1) {
-            previewHeight = Math.round(hoverPreviewSize / aspectRatio)
-          } else {
-            previewWidth = Math.round(hoverPreviewSize * aspectRatio)
-          }
-        }
+          const range = new vscode.Range(
+            new vscode.Position(component.startLine, 0),
+            new vscode.Position(component.endLine, Number.MAX_VALUE)
+          )
 
-        // Get temp file path from decoration provider (shared)
-        const tempFilePath = getTempFilePath(document.uri.toString(), component.name)
-        
-        if (!tempFilePath) {
-          markdown.appendMarkdown(`**${component.name}**\n\n`)
-          markdown.appendMarkdown(`*(Preview not available - try refreshing)*\n\n`)
-        } else {
-          const tempFileUri = vscode.Uri.file(tempFilePath)
-          markdown.appendMarkdown(`**${component.name}**\n\n`)
-          markdown.appendMarkdown(`<img src="${tempFileUri.toString()}" width="${previewWidth}" height="${previewHeight}" />\n\n`)
+          return new vscode.Hover(markdown, range)
         }
 
-        if (component.viewBox) {
-          markdown.appendMarkdown(`*viewBox:* \`${component.viewBox}\`\n\n`)
-        }
+        // Otherwise look for a JSX usage such as <ChevronDownIcon /> under the cursor
+        const usages = getDocumentUsages(document, defaultFillColor)
+        const usage = findUsageAtPosition(usages, line, position.character)
 
-        if (component.width && component.height) {
-          markdown.appendMarkdown(`*size:* ${component.width} × ${component.height}`)
+        if (!usage || token.isCancellationRequested) {
+          return null
         }
 
+        const markdown = createPreviewMarkdown(
+          usage.component,
+          hoverPreviewSize,
+          variants,
+          usage.definitionPath
+        )
+
         const range = new vscode.Range(
-          new vscode.Position(component.startLine, 0),
-          new vscode.Position(component.endLine, Number.MAX_VALUE)
+          new vscode.Position(usage.line, usage.startCharacter),
+          new vscode.Position(usage.line, usage.endCharacter)
         )
 
         return new vscode.Hover(markdown, range)
@@ -148,24 +243,7 @@ export function createHoverProvider(
     }
   )
 
-  // Clear cache when document changes
-  const changeListener = vscode.workspace.onDidChangeTextDocument((event) => {
-    componentCache.delete(event.document.uri.toString())
-  })
-
-  // Clear cache when document closes
-  const closeListener = vscode.workspace.onDidCloseTextDocument((document) => {
-    componentCache.delete(document.uri.toString())
-  })
-
-  context.subscriptions.push(provider, changeListener, closeListener)
+  context.subscriptions.push(provider)
 
   return provider
 }
-
-/**
- * Clear all cached components
- */
-export function clearComponentCache(): void {
-  componentCache.clear()
-}
@@ -0,0 +1,151 @@
+/**
+ * Icon Cache - Content-addressed SVG image files for gutter icons and hover previews
+ *
+ * Gutter icons and markdown images need a file URI, so each distinct SVG is written
+ * once to the extension's storage, named by a hash of its content. Identical icons in
+ * different documents share one file.
+ *
+ * Once the cache grows past its limit, the least recently used files that no decoration
+ * type or tree item still shows are deleted. Hovers only live briefly and use the newest files.
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as crypto from 'crypto'
+
+// Most recently used last; unused files are deleted once the limit is reached
+const MAX_CACHED_ICONS = 500
+
+// Cached file paths, keyed by content hash
+const iconFiles: Map<string, string> = new Map()
+
+// Size at which the next sweep runs, raised when most files are still in use
+let sweepThreshold = MAX_CACHED_ICONS
+
+// Functions returning the paths their decorations and tree items still show
+const iconPathProviders: Set<() => Iterable<string>> = new Set()
+
+// One directory per extension host, so windows don't delete each other's icons.
+// Replaced by a directory in the extension's storage when the extension activates.
+let cacheDir = path.join(os.tmpdir(), 'react-svg-preview-icons', String(process.pid))
+
+/**
+ * Remove a directory and ignore errors
+ */
+function removeDir(dir: string): void {
+  try {
+    fs.rmSync(dir, { recursive: true, force: true })
+  } catch {
+    // Ignore errors
+  }
+}
+
+/**
+ * Check if a process is still running
+ */
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+/**
+ * Set up the cache directory in the extension's global storage.
+ * Directories left behind by extension hosts that are no longer running are removed.
+ */
+export function initIconCache(context: vscode.ExtensionContext): void {
+  const root = path.join(context.globalStorageUri.fsPath, 'icons')
+  cacheDir = path.join(root, String(process.pid))
+
+  if (fs.existsSync(root)) {
+    for (const entry of fs.readdirSync(root)) {
+      const pid = Number(entry)
+      if (!Number.isInteger(pid) || (pid !== process.pid && !isProcessRunning(pid))) {
+        removeDir(path.join(root, entry))
+      }
+    }
+  }
+
+  // Previous versions wrote a temp file per render to the OS temp dir
+  removeDir(path.join(os.tmpdir(), 'react-svg-preview'))
+}
+
+/**
+ * Get the path of an image file with the given SVG content, writing it if needed
+ */
+export function getIconPath(svg: string): string {
+  const hash = crypto.createHash('sha1').update(svg).digest('hex').slice(0, 16)
+
+  const existing = iconFiles.get(hash)
+  if (existing) {
+    // Move to the end so it is deleted last
+    iconFiles.delete(hash)
+    iconFiles.set(hash, existing)
+    return existing
+  }
+
+  fs.mkdirSync(cacheDir, { recursive: true })
+  const filePath = path.join(cacheDir, `${hash}.svg`)
+  fs.writeFileSync(filePath, svg)
+  iconFiles.set(hash, filePath)
+
+  if (iconFiles.size > sweepThreshold) {
+    sweepIconFiles(filePath)
+  }
+
+  return filePath
+}
+
+/**
+ * Delete the least recently used files nothing shows anymore, down to the limit.
+ * The file just written is kept for its caller.
+ */
+function sweepIconFiles(newPath: string): void {
+  const usedPaths = new Set<string>([newPath])
+  for (const getPaths of iconPathProviders) {
+    for (const usedPath of getPaths()) {
+      usedPaths.add(usedPath)
+    }
+  }
+
+  for (const [hash, filePath] of iconFiles) {
+    if (iconFiles.size <= MAX_CACHED_ICONS) {
+      break
+    }
+    if (usedPaths.has(filePath)) {
+      continue
+    }
+    iconFiles.delete(hash)
+    try {
+      fs.unlinkSync(filePath)
+    } catch {
+      // Ignore errors
+    }
+  }
+
+  // Don't sweep again on every new icon while more files than the limit are shown
+  sweepThreshold = Math.max(MAX_CACHED_ICONS, iconFiles.size * 2)
+}
+
+/**
+ * Keep the files whose paths a function returns from being deleted, e.g. the icons of
+ * live decoration types. Dispose the result to stop.
+ */
+export function retainIconPaths(getPaths: () => Iterable<string>): vscode.Disposable {
+  iconPathProviders.add(getPaths)
+  return { dispose: () => iconPathProviders.delete(getPaths) }
+}
+
+/**
+ * Delete all cached image files
+ */
+export function clearIconCache(): void {
+  iconFiles.clear()
+  sweepThreshold = MAX_CACHED_ICONS
+  removeDir(cacheDir)
+}
@@ -0,0 +1,253 @@
+/**
+ * Icon Library - Generate a typed React icon component library from a folder of .svg files
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { parseRawSvgFile } from './svgParser'
+import { IconComponentOptions, applyNameTemplate, generateIconComponent } from './componentGenerator'
+import { toKebabName } from './utils'
+
+const GENERATE_COMMAND = 'reactSvgPreview.generateIconLibrary'
+
+// Output folders of generated libraries by source folder path, offered again when re-running
+const OUTPUT_FOLDERS_KEY = 'reactSvgPreview.iconLibraryOutputFolders'
+
+// Files searched in the source folder
+const SVG_INCLUDE = '**/*.svg'
+const SVG_EXCLUDE = '**/{node_modules,.git}/**'
+
+// First line of every generated file. Files starting with it are overwritten or deleted on sync.
+const GENERATED_HEADER = '// Generated by React SVG Preview'
+
+interface LibraryIcon {
+  /** Key in the icon map and IconName union, e.g. "arrow-left" */
+  key: string
+  componentName: string
+  source: string
+}
+
+/**
+ * Create a generated file's header naming its source
+ */
+function createHeader(source: string): string {
+  return `${GENERATED_HEADER} from ${source}. Edit the source and regenerate instead of changing this file.`
+}
+
+/**
+ * Quote a map key when it isn't a plain identifier
+ */
+function toPropertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`
+}
+
+/**
+ * Generate the barrel: every component, the IconName union, the name → component map
+ * and an <Icon name="..." /> component
+ */
+function generateIndex(icons: LibraryIcon[], sourceFolder: string): string {
+  const lines = [createHeader(sourceFolder), '', "import { createElement, type ComponentProps } from 'react'"]
+  lines.push(...icons.map((icon) => `import { ${icon.componentName} } from './${icon.componentName}'`))
+  lines.push('', `export { ${icons.map((icon) => icon.componentName).join(', ')} }`)
+
+  lines.push('', 'export type IconName =')
+  lines.push(...icons.map((icon) => `  | '${icon.key}'`))
+
+  lines.push('', 'export const icons = {')
+  lines.push(...icons.map((icon) => `  ${toPropertyKey(icon.key)}: ${icon.componentName},`))
+  lines.push('}')
+
+  lines.push(
+    '',
+    'export type IconProps = ComponentProps<(typeof icons)[IconName]> & { name: IconName }',
+    '',
+    'export function Icon({ name, ...props }: IconProps) {',
+    '  return createElement(icons[name], props)',
+    '}'
+  )
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Read a file, or undefined when it doesn't exist
+ */
+async function readTextFile(uri: vscode.Uri): Promise<string | undefined> {
+  try {
+    return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Ask for the output folder of a source folder's library, starting at the folder used last
+ */
+async function getOutputFolder(
+  context: vscode.ExtensionContext,
+  sourceFolder: vscode.Uri
+): Promise<vscode.Uri | undefined> {
+  const outputFolders = context.workspaceState.get<Record<string, string>>(OUTPUT_FOLDERS_KEY, {})
+  const saved = outputFolders[sourceFolder.fsPath]
+
+  const targets = await vscode.window.showOpenDialog({
+    defaultUri: vscode.Uri.file(saved ?? path.dirname(sourceFolder.fsPath)),
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    openLabel: saved ? 'Sync icon library here' : 'Generate icon library here',
+  })
+  if (!targets || targets.length === 0) {
+    return undefined
+  }
+
+  await context.workspaceState.update(OUTPUT_FOLDERS_KEY, {
+    ...outputFolders,
+    [sourceFolder.fsPath]: targets[0].fsPath,
+  })
+  return targets[0]
+}
+
+/**
+ * Generate (or sync) the icon library of a folder of .svg files. Changed icons are rewritten,
+ * icons whose .svg was removed are deleted, and hand-written files are left alone.
+ */
+async function generateIconLibrary(context: vscode.ExtensionContext, uri?: vscode.Uri): Promise<void> {
+  let sourceFolder = uri
+  if (!sourceFolder) {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      openLabel: 'Generate icon library from this folder',
+    })
+    sourceFolder = picked?.[0]
+  }
+  if (!sourceFolder) {
+    return
+  }
+
+  const files = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(sourceFolder, SVG_INCLUDE),
+    SVG_EXCLUDE
+  )
+  if (files.length === 0) {
+    vscode.window.showWarningMessage('React SVG Preview: No .svg files found in the folder')
+    return
+  }
+
+  const outputFolder = await getOutputFolder(context, sourceFolder)
+  if (!outputFolder) {
+    return
+  }
+
+  const config = vscode.workspace.getConfiguration('reactSvgPreview')
+  const nameTemplate = config.get<string>('componentNameTemplate', '{name}Icon')
+  const baseOptions: Omit<IconComponentOptions, 'name'> = {
+    forwardRef: config.get<boolean>('componentForwardRef', false),
+    memo: config.get<boolean>('componentMemo', false),
+    currentColor: config.get<boolean>('componentCurrentColor', true),
+    sizeProp: config.get<boolean>('componentSizeProp', false),
+    titleProp: config.get<boolean>('componentTitleProp', false),
+    typescript: true,
+  }
+
+  // Sort by path so component names and the barrel are stable between runs
+  files.sort((a, b) => a.fsPath.localeCompare(b.fsPath))
+
+  const icons: LibraryIcon[] = []
+  const generated: Map<string, string> = new Map()
+  const usedKeys = new Set<string>()
+  let skipped = 0
+
+  for (const file of files) {
+    const fileName = path.basename(file.fsPath)
+    const text = await readTextFile(file)
+    const component = text ? parseRawSvgFile(text, fileName)[0] : undefined
+    if (!component) {
+      skipped++
+      continue
+    }
+
+    // Icons with the same name in different subfolders get a numeric suffix
+    const baseKey = toKebabName(fileName.replace(/\.svg$/i, '')) || 'icon'
+    let key = baseKey
+    for (let i = 2; usedKeys.has(key); i++) {
+      key = `${baseKey}-${i}`
+    }
+    usedKeys.add(key)
+
+    const componentName = applyNameTemplate(nameTemplate, key)
+    const source = path.relative(outputFolder.fsPath, file.fsPath).split(path.sep).join('/')
+    icons.push({ key, componentName, source })
+    generated.set(
+      `${componentName}.tsx`,
+      `${createHeader(source)}\n\n${generateIconComponent(component.rawJsx, { ...baseOptions, name: componentName })}`
+    )
+  }
+
+  if (icons.length === 0) {
+    vscode.window.showWarningMessage('React SVG Preview: None of the .svg files could be read')
+    return
+  }
+
+  const sourceName = path.relative(outputFolder.fsPath, sourceFolder.fsPath).split(path.sep).join('/') || '.'
+  generated.set('index.ts', generateIndex(icons, sourceName))
+
+  let added = 0
+  let updated = 0
+  let removed = 0
+
+  try {
+    for (const [fileName, content] of generated) {
+      const target = vscode.Uri.joinPath(outputFolder, fileName)
+      const existing = await readTextFile(target)
+      if (existing === content) {
+        continue
+      }
+      if (existing !== undefined && !existing.startsWith(GENERATED_HEADER)) {
+        skipped++
+        console.error(`React SVG Preview: Not overwriting hand-written ${target.fsPath}`)
+        continue
+      }
+      await vscode.workspace.fs.writeFile(target, Buffer.from(content))
+      if (existing === undefined) {
+        added++
+      } else {
+        updated++
+      }
+    }
+
+    // Delete generated components whose .svg file is gone
+    for (const [fileName, type] of await vscode.workspace.fs.readDirectory(outputFolder)) {
+      if (type !== vscode.FileType.File || !/\.tsx?$/.test(fileName) || generated.has(fileName)) {
+        continue
+      }
+      const target = vscode.Uri.joinPath(outputFolder, fileName)
+      if ((await readTextFile(target))?.startsWith(GENERATED_HEADER)) {
+        await vscode.workspace.fs.delete(target)
+        removed++
+      }
+    }
+  } catch (error) {
+    console.error('React SVG Preview: Failed to write icon library', error)
+    vscode.window.showErrorMessage(`React SVG Preview: Failed to write icon library: ${error}`)
+    return
+  }
+
+  vscode.window.showInformationMessage(
+    `React SVG Preview: Icon library in ${vscode.workspace.asRelativePath(outputFolder)} has ${icons.length} icons ` +
+      `(${added} added, ${updated} updated, ${removed} removed${skipped > 0 ? `, ${skipped} skipped` : ''})`
+  )
+}
+
+/**
+ * Register the icon library command
+ */
+export function createIconLibraryCommand(context: vscode.ExtensionContext): void {
+  const command = vscode.commands.registerCommand(GENERATE_COMMAND, (uri?: vscode.Uri) =>
+    generateIconLibrary(context, uri)
+  )
+
+  context.subscriptions.push(command)
+}
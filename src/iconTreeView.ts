@@ -0,0 +1,341 @@
+/**
+ * Icon Tree View - Explorer view of the workspace's icon files and their icons, with thumbnails
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { ParsedSvgComponent } from './svgParser'
+import { GALLERY_INCLUDE, GALLERY_EXCLUDE, scanFile } from './gallery'
+import { getDocumentComponents } from './documentModel'
+import { getIconPath, retainIconPaths } from './iconCache'
+import { resolveFillColor } from './themeColor'
+import { logError } from './outputChannel'
+
+const VIEW_ID = 'reactSvgPreview.iconView'
+const FILTER_COMMAND = 'reactSvgPreview.filterIconView'
+const CLEAR_FILTER_COMMAND = 'reactSvgPreview.clearIconViewFilter'
+const REFRESH_COMMAND = 'reactSvgPreview.refreshIconView'
+
+// Context key that shows the clear filter button
+const FILTERED_CONTEXT_KEY = 'reactSvgPreview.iconViewFiltered'
+
+// Folders left out of the view, as in the gallery
+const EXCLUDED_FOLDER_PATTERN = /[\\/](?:node_modules|out|dist|build|\.git)[\\/]/
+
+type IconTreeNode =
+  | { type: 'file'; uri: vscode.Uri }
+  | { type: 'icon'; uri: vscode.Uri; component: ParsedSvgComponent }
+
+type IconFiles = Map<string, { uri: vscode.Uri; components: ParsedSvgComponent[] }>
+
+// Icons of each workspace file that has any, by file URI
+let iconFiles: IconFiles = new Map()
+
+// Workspace scan, started the first time the view is shown
+let scan: Promise<void> | undefined
+// Incremented by every scan, so only the latest one replaces the icons
+let scanGeneration = 0
+// Scan options of the latest scan, as JSON
+let scannedOptions: string | undefined
+let filter = ''
+
+// Icon file of each icon shown in the tree, kept in the icon cache while it is listed
+const treeIconPaths: WeakMap<ParsedSvgComponent, string> = new WeakMap()
+
+/**
+ * Get the scan options for the current settings
+ */
+function getScanOptions(): { defaultFillColor: string; pathViewBox: string } {
+  const config = vscode.workspace.getConfiguration('reactSvgPreview')
+  return {
+    defaultFillColor: resolveFillColor(config),
+    pathViewBox: config.get<string>('defaultPathViewBox', '0 0 24 24'),
+  }
+}
+
+/**
+ * Set the icons of a file, forgetting files that have none
+ */
+function setFileIcons(uri: vscode.Uri, components: ParsedSvgComponent[], files: IconFiles = iconFiles): void {
+  if (components.length > 0) {
+    files.set(uri.toString(), { uri, components })
+  } else {
+    files.delete(uri.toString())
+  }
+}
+
+/**
+ * Check if a file can be listed: only workspace files outside build and dependency folders
+ */
+function isListedFile(uri: vscode.Uri): boolean {
+  return (
+    uri.scheme === 'file' &&
+    vscode.workspace.getWorkspaceFolder(uri) !== undefined &&
+    !EXCLUDED_FOLDER_PATTERN.test(uri.fsPath)
+  )
+}
+
+/**
+ * Scan every workspace file for icons. The result replaces the shown icons only if no
+ * newer scan started meanwhile, and files with unsaved edits keep their editor's icons.
+ */
+async function scanWorkspaceFiles(): Promise<void> {
+  const generation = ++scanGeneration
+  const options = getScanOptions()
+  scannedOptions = JSON.stringify(options)
+  const uris = await vscode.workspace.findFiles(GALLERY_INCLUDE, GALLERY_EXCLUDE)
+
+  const files: IconFiles = new Map()
+  for (const uri of uris) {
+    if (generation !== scanGeneration) {
+      return
+    }
+    try {
+      setFileIcons(uri, await scanFile(uri, options), files)
+    } catch (error) {
+      logError(`Failed to scan ${uri.fsPath}:`, error)
+    }
+  }
+  if (generation !== scanGeneration) {
+    return
+  }
+
+  // The files on disk are older than unsaved edits
+  for (const document of vscode.workspace.textDocuments) {
+    if (document.isDirty && isListedFile(document.uri)) {
+      setFileIcons(document.uri, getDocumentComponents(document), files)
+    }
+  }
+
+  iconFiles = files
+}
+
+/**
+ * Check if an icon matches the filter by its name or file path
+ */
+function matchesFilter(uri: vscode.Uri, component: ParsedSvgComponent): boolean {
+  const query = filter.toLowerCase()
+  return (
+    component.name.toLowerCase().includes(query) ||
+    vscode.workspace.asRelativePath(uri).toLowerCase().includes(query)
+  )
+}
+
+/**
+ * Get the icons of a file that match the filter
+ */
+function getVisibleComponents(uri: vscode.Uri): ParsedSvgComponent[] {
+  const components = iconFiles.get(uri.toString())?.components ?? []
+  return filter ? components.filter((component) => matchesFilter(uri, component)) : components
+}
+
+/**
+ * Get the icon files of the listed icons the tree has shown
+ */
+function getTreeIconPaths(): string[] {
+  const paths: string[] = []
+  for (const file of iconFiles.values()) {
+    for (const component of file.components) {
+      const iconPath = treeIconPaths.get(component)
+      if (iconPath) {
+        paths.push(iconPath)
+      }
+    }
+  }
+  return paths
+}
+
+/**
+ * Tree items: files with their folder as description, icons with their preview as icon
+ */
+function getTreeItem(node: IconTreeNode): vscode.TreeItem {
+  if (node.type === 'file') {
+    const item = new vscode.TreeItem(
+      node.uri,
+      // Show the matches right away while filtering
+      filter ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+    )
+    const folder = path.dirname(vscode.workspace.asRelativePath(node.uri))
+    item.description = folder === '.' ? undefined : folder
+    item.tooltip = vscode.workspace.asRelativePath(node.uri)
+    return item
+  }
+
+  const { component, uri } = node
+  // Same content as the gutter icon, so this reuses its cached file
+  const iconPath = getIconPath(component.svg)
+  treeIconPaths.set(component, iconPath)
+  const iconUri = vscode.Uri.file(iconPath)
+  const item = new vscode.TreeItem(component.name, vscode.TreeItemCollapsibleState.None)
+  item.iconPath = iconUri
+  item.description = `line ${component.startLine + 1}`
+  item.tooltip = new vscode.MarkdownString(
+    `**${component.name}**\n\n<img src="${iconUri.toString()}" width="64" height="64" />`
+  )
+  item.tooltip.supportHtml = true
+
+  // Reveal the icon in the editor
+  const position = new vscode.Position(
+    component.nameLine ?? component.startLine,
+    component.nameStartCharacter ?? 0
+  )
+  item.command = {
+    command: 'vscode.open',
+    title: 'Reveal in Editor',
+    arguments: [uri, { selection: new vscode.Range(position, position) }],
+  }
+  return item
+}
+
+/**
+ * Children: files with matching icons at the root, sorted by path, and their icons in line order
+ */
+async function getChildren(node?: IconTreeNode): Promise<IconTreeNode[]> {
+  if (node) {
+    return node.type === 'file'
+      ? getVisibleComponents(node.uri).map((component) => ({ type: 'icon', uri: node.uri, component }))
+      : []
+  }
+
+  scan = scan ?? scanWorkspaceFiles()
+  await scan
+
+  return Array.from(iconFiles.values())
+    .filter((file) => getVisibleComponents(file.uri).length > 0)
+    .sort((a, b) =>
+      vscode.workspace.asRelativePath(a.uri).localeCompare(vscode.workspace.asRelativePath(b.uri))
+    )
+    .map((file) => ({ type: 'file', uri: file.uri }))
+}
+
+/**
+ * Create the "SVG Icons" Explorer view. Open documents are updated from the document model
+ * when their editors are; files changed on disk are rescanned.
+ */
+export function createIconTreeView(context: vscode.ExtensionContext): {
+  updateDocument: (document: vscode.TextDocument) => void
+  refresh: (rescan?: boolean) => void
+} {
+  const changeEmitter = new vscode.EventEmitter<void>()
+  const treeView = vscode.window.createTreeView<IconTreeNode>(VIEW_ID, {
+    treeDataProvider: { getTreeItem, getChildren, onDidChangeTreeData: changeEmitter.event },
+    showCollapseAll: true,
+  })
+
+  // Refresh at most every half second while typing
+  let refreshTimeout: NodeJS.Timeout | undefined
+  const scheduleRender = () => {
+    if (refreshTimeout) {
+      clearTimeout(refreshTimeout)
+    }
+    refreshTimeout = setTimeout(() => {
+      refreshTimeout = undefined
+      changeEmitter.fire()
+    }, 500)
+  }
+
+  const updateDocument = (document: vscode.TextDocument) => {
+    // Only files of the workspace are listed, and only once it was scanned
+    if (!scan || !isListedFile(document.uri)) {
+      return
+    }
+    const known = iconFiles.has(document.uri.toString())
+    const components = getDocumentComponents(document)
+    if (known || components.length > 0) {
+      setFileIcons(document.uri, components)
+      scheduleRender()
+    }
+  }
+
+  // Rescan everything when the icons were parsed with other colors or sprites; otherwise
+  // only redraw, e.g. after the editor font changed. While the view is hidden, the scan
+  // is dropped and runs with the current options the next time the view is shown.
+  const refresh = (rescan = false) => {
+    if (rescan || JSON.stringify(getScanOptions()) !== scannedOptions) {
+      if (scan && treeView.visible) {
+        scan = scanWorkspaceFiles()
+      } else {
+        scan = undefined
+        scanGeneration++
+      }
+    }
+    changeEmitter.fire()
+  }
+
+  const visibilityListener = treeView.onDidChangeVisibility((event) => {
+    if (event.visible && !scan) {
+      changeEmitter.fire()
+    }
+  })
+
+  // Files changed outside the editor
+  const watcher = vscode.workspace.createFileSystemWatcher(GALLERY_INCLUDE)
+  const rescanFile = async (uri: vscode.Uri) => {
+    const openDocument = vscode.workspace.textDocuments.find(
+      (document) => document.uri.toString() === uri.toString()
+    )
+    // Unsaved edits are picked up from the editor instead
+    if (!scan || openDocument?.isDirty || EXCLUDED_FOLDER_PATTERN.test(uri.fsPath)) {
+      return
+    }
+    try {
+      setFileIcons(uri, await scanFile(uri, getScanOptions()))
+      scheduleRender()
+    } catch (error) {
+      logError(`Failed to scan ${uri.fsPath}:`, error)
+    }
+  }
+  watcher.onDidCreate(rescanFile)
+  watcher.onDidChange(rescanFile)
+  watcher.onDidDelete((uri) => {
+    if (iconFiles.delete(uri.toString())) {
+      scheduleRender()
+    }
+  })
+
+  const filterCommand = vscode.commands.registerCommand(FILTER_COMMAND, async () => {
+    const value = await vscode.window.showInputBox({
+      prompt: 'Filter icons by name or file path',
+      value: filter,
+    })
+    if (value === undefined) {
+      return
+    }
+    filter = value.trim()
+    treeView.description = filter ? `"${filter}"` : undefined
+    vscode.commands.executeCommand('setContext', FILTERED_CONTEXT_KEY, filter.length > 0)
+    changeEmitter.fire()
+  })
+
+  const clearFilterCommand = vscode.commands.registerCommand(CLEAR_FILTER_COMMAND, () => {
+    filter = ''
+    treeView.description = undefined
+    vscode.commands.executeCommand('setContext', FILTERED_CONTEXT_KEY, false)
+    changeEmitter.fire()
+  })
+
+  const refreshCommand = vscode.commands.registerCommand(REFRESH_COMMAND, () => {
+    scan = scanWorkspaceFiles()
+    changeEmitter.fire()
+  })
+
+  context.subscriptions.push(
+    treeView,
+    changeEmitter,
+    watcher,
+    filterCommand,
+    clearFilterCommand,
+    refreshCommand,
+    visibilityListener,
+    retainIconPaths(getTreeIconPaths),
+    {
+      dispose: () => {
+        if (refreshTimeout) {
+          clearTimeout(refreshTimeout)
+        }
+      },
+    }
+  )
+
+  return { updateDocument, refresh }
+}
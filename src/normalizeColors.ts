@@ -0,0 +1,402 @@
+/**
+ * Normalize Colors - Quick fixes that replace hard-coded icon colors with currentColor,
+ * props or CSS variables
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import * as ts from 'typescript'
+import {
+  ParsedSvgComponent,
+  SvgIssue,
+  parseSvgComponents,
+  parseSourceFile,
+  findComponentAtLine,
+  findComponentFunction,
+} from './svgParser'
+import { toKebabName } from './utils'
+import { getDocumentComponents } from './documentModel'
+
+const NORMALIZE_WORKSPACE_COMMAND = 'reactSvgPreview.normalizeColorsInWorkspace'
+
+// Files searched by the workspace command
+const NORMALIZE_INCLUDE = '**/*.{tsx,jsx,ts,js}'
+const NORMALIZE_EXCLUDE = '**/{node_modules,out,dist,build,.git}/**'
+
+/**
+ * Normalize a color for comparison: lowercase, with #abc expanded to #aabbcc
+ */
+function normalizeColor(color: string): string {
+  const value = color.trim().toLowerCase()
+  const short = value.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/)
+  return short ? `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}` : value
+}
+
+/**
+ * Get the hard-coded fill and stroke colors of a component
+ */
+function getColorIssues(component: ParsedSvgComponent): SvgIssue[] {
+  return (component.issues ?? []).filter(
+    (issue) => issue.rule === 'hardcodedColor' && issue.attribute && issue.value
+  )
+}
+
+/**
+ * Get the distinct colors used by the issues, as written in the source of their first use
+ */
+function getDistinctColors(issues: SvgIssue[]): string[] {
+  const colors: Map<string, string> = new Map()
+  for (const issue of issues) {
+    const value = issue.value as string
+    if (!colors.has(normalizeColor(value))) {
+      colors.set(normalizeColor(value), value)
+    }
+  }
+  return Array.from(colors.values())
+}
+
+/**
+ * Find the index of an issue's color in the distinct colors
+ */
+function getColorIndex(colors: string[], issue: SvgIssue): number {
+  return colors.findIndex((color) => normalizeColor(color) === normalizeColor(issue.value as string))
+}
+
+function getIssueRange(issue: SvgIssue): vscode.Range {
+  return new vscode.Range(issue.startLine, issue.startCharacter, issue.endLine, issue.endCharacter)
+}
+
+/**
+ * Replace every hard-coded color of a component with currentColor
+ */
+function addCurrentColorEdits(
+  edit: vscode.WorkspaceEdit,
+  uri: vscode.Uri,
+  issues: SvgIssue[],
+  metadata?: vscode.WorkspaceEditEntryMetadata
+): void {
+  for (const issue of issues) {
+    edit.replace(uri, getIssueRange(issue), `${issue.attribute}="currentColor"`, metadata)
+  }
+}
+
+/**
+ * Replace each color with a CSS variable that falls back to the original color,
+ * e.g. fill="var(--flag-icon-color-1, #E53935)"
+ */
+function addCssVariableEdits(
+  edit: vscode.WorkspaceEdit,
+  uri: vscode.Uri,
+  component: ParsedSvgComponent,
+  issues: SvgIssue[]
+): void {
+  const colors = getDistinctColors(issues)
+  const prefix = toKebabName(component.name)
+  for (const issue of issues) {
+    const index = getColorIndex(colors, issue)
+    edit.replace(
+      uri,
+      getIssueRange(issue),
+      `${issue.attribute}="var(--${prefix}-color-${index + 1}, ${issue.value})"`
+    )
+  }
+}
+
+/**
+ * Find the type node declaring a component's props: the parameter's annotation, the props
+ * type argument of forwardRef<Ref, Props> or memo<Props>, or of a variable's FC<Props>.
+ * Returns null when the props are typed by a context that can't be extended, such as
+ * `FC` without arguments or an untyped forwardRef callback.
+ */
+function findPropsTypeNode(fn: ts.FunctionLikeDeclaration): ts.TypeNode | null | undefined {
+  const [param] = fn.parameters
+  if (param?.type) {
+    return param.type
+  }
+
+  let node: ts.Node = fn
+  while (ts.isCallExpression(node.parent) || ts.isParenthesizedExpression(node.parent)) {
+    node = node.parent
+    if (ts.isCallExpression(node)) {
+      if (/(?:^|\.)forwardRef$/.test(node.expression.getText())) {
+        return node.typeArguments?.[1] ?? null
+      }
+      if (node.typeArguments && node.typeArguments.length > 0) {
+        return node.typeArguments[0]
+      }
+    }
+  }
+
+  if (ts.isVariableDeclaration(node.parent) && node.parent.type) {
+    const type = node.parent.type
+    return ts.isTypeReferenceNode(type) && type.typeArguments?.[0] ? type.typeArguments[0] : null
+  }
+
+  // Untyped functions infer their props from the parameters
+  return undefined
+}
+
+/**
+ * Add the color props to a props type: Props becomes Props & { color1?: string }
+ */
+function addPropsTypeEdit(
+  edit: vscode.WorkspaceEdit,
+  document: vscode.TextDocument,
+  propsType: ts.TypeNode,
+  propNames: string[],
+  sourceFile: ts.SourceFile
+): void {
+  const members = propNames.map((name) => `${name}?: string`).join('; ')
+  const start = document.positionAt(propsType.getStart(sourceFile))
+  const end = document.positionAt(propsType.getEnd())
+
+  // Unions and function types bind looser than &, so they are wrapped
+  const bindsTighter =
+    ts.isTypeReferenceNode(propsType) ||
+    ts.isTypeLiteralNode(propsType) ||
+    ts.isIntersectionTypeNode(propsType) ||
+    ts.isParenthesizedTypeNode(propsType)
+  if (!bindsTighter) {
+    edit.insert(document.uri, start, '(')
+  }
+  edit.insert(document.uri, end, `${bindsTighter ? '' : ')'} & { ${members} }`)
+}
+
+/**
+ * Replace each color with a prop (color1, color2, ...) that defaults to the original color.
+ * In TypeScript the props type is extended with the new props. Returns false when the
+ * component's parameters or props type can't be rewritten.
+ */
+function addPropEdits(
+  edit: vscode.WorkspaceEdit,
+  document: vscode.TextDocument,
+  component: ParsedSvgComponent,
+  issues: SvgIssue[]
+): boolean {
+  const fileName = path.basename(document.fileName)
+  const sourceFile = parseSourceFile(document.getText(), fileName)
+  const fn = findComponentFunction(sourceFile, component.name, fileName)
+  if (!fn) {
+    return false
+  }
+
+  const colors = getDistinctColors(issues)
+  const propNames = colors.map((_color, index) => `color${index + 1}`)
+  const defaults = colors.map((color, index) => `${propNames[index]} = '${color}'`).join(', ')
+  const [param] = fn.parameters
+
+  if (/\.[cm]?tsx?$/i.test(fileName)) {
+    const propsType = findPropsTypeNode(fn)
+    if (propsType === null) {
+      return false
+    }
+    if (propsType) {
+      addPropsTypeEdit(edit, document, propsType, propNames, sourceFile)
+    }
+  }
+
+  let toExpression: (index: number) => string
+  if (!param) {
+    // () => ... becomes ({ color1 = '#000' }) => ...
+    const openParen = fn
+      .getChildren(sourceFile)
+      .find((child) => child.kind === ts.SyntaxKind.OpenParenToken)
+    if (!openParen) {
+      return false
+    }
+    edit.insert(document.uri, document.positionAt(openParen.getEnd()), `{ ${defaults} }`)
+    toExpression = (index) => propNames[index]
+  } else if (ts.isIdentifier(param.name)) {
+    // (props) => ... reads props.color1 with the original color as fallback
+    const propsName = param.name.text
+    toExpression = (index) => `${propsName}.${propNames[index]} ?? '${colors[index]}'`
+  } else if (ts.isObjectBindingPattern(param.name)) {
+    // ({ size, ...rest }) => ... becomes ({ color1 = '#000', size, ...rest }) => ...
+    const [firstElement] = param.name.elements
+    if (firstElement) {
+      edit.insert(document.uri, document.positionAt(firstElement.getStart(sourceFile)), `${defaults}, `)
+    } else {
+      edit.insert(document.uri, document.positionAt(param.name.getStart(sourceFile) + 1), ` ${defaults} `)
+    }
+    toExpression = (index) => propNames[index]
+  } else {
+    return false
+  }
+
+  for (const issue of issues) {
+    edit.replace(
+      document.uri,
+      getIssueRange(issue),
+      `${issue.attribute}={${toExpression(getColorIndex(colors, issue))}}`
+    )
+  }
+  return true
+}
+
+/**
+ * Provide quick fixes for hard-coded colors in the icon component at the cursor
+ */
+class NormalizeColorsActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix]
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const component = findComponentAtLine(getDocumentComponents(document), range.start.line)
+    if (!component) {
+      return []
+    }
+
+    const issues = getColorIssues(component)
+    if (issues.length === 0) {
+      return []
+    }
+
+    const diagnostics = context.diagnostics.filter(
+      (diagnostic) =>
+        diagnostic.code === 'hardcodedColor' &&
+        diagnostic.range.start.line >= component.startLine &&
+        diagnostic.range.start.line <= component.endLine
+    )
+    const colors = getDistinctColors(issues)
+
+    if (colors.length === 1) {
+      const action = new vscode.CodeAction(
+        `Replace ${colors[0]} with currentColor in ${component.name}`,
+        vscode.CodeActionKind.QuickFix
+      )
+      action.edit = new vscode.WorkspaceEdit()
+      addCurrentColorEdits(action.edit, document.uri, issues)
+      action.diagnostics = diagnostics
+      action.isPreferred = true
+      return [action]
+    }
+
+    // Several colors can't collapse to currentColor, so make each one configurable instead
+    const actions: vscode.CodeAction[] = []
+
+    const propsEdit = new vscode.WorkspaceEdit()
+    if (addPropEdits(propsEdit, document, component, issues)) {
+      const action = new vscode.CodeAction(
+        `Map ${colors.length} colors to props in ${component.name}`,
+        vscode.CodeActionKind.QuickFix
+      )
+      action.edit = propsEdit
+      action.diagnostics = diagnostics
+      actions.push(action)
+    }
+
+    const cssAction = new vscode.CodeAction(
+      `Map ${colors.length} colors to CSS variables in ${component.name}`,
+      vscode.CodeActionKind.QuickFix
+    )
+    cssAction.edit = new vscode.WorkspaceEdit()
+    addCssVariableEdits(cssAction.edit, document.uri, component, issues)
+    cssAction.diagnostics = diagnostics
+    actions.push(cssAction)
+
+    return actions
+  }
+}
+
+/**
+ * Replace hard-coded colors with currentColor in every single-color icon in the workspace.
+ * The edits are shown in the refactor preview before they are applied.
+ */
+async function normalizeColorsInWorkspace(): Promise<void> {
+  const edit = new vscode.WorkspaceEdit()
+  let fixed = 0
+  let skipped = 0
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'React SVG Preview: Finding hard-coded icon colors',
+      cancellable: true,
+    },
+    async (_progress, token) => {
+      const uris = await vscode.workspace.findFiles(NORMALIZE_INCLUDE, NORMALIZE_EXCLUDE, undefined, token)
+
+      for (const uri of uris) {
+        if (token.isCancellationRequested) {
+          break
+        }
+
+        // Prefer open documents so ranges match unsaved content
+        const openDocument = vscode.workspace.textDocuments.find(
+          (document) => document.uri.toString() === uri.toString()
+        )
+        const text =
+          openDocument?.getText() ??
+          Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')
+        if (!/\b(?:fill|stroke)=/.test(text)) {
+          continue
+        }
+
+        const components = parseSvgComponents(text, { fileName: path.basename(uri.fsPath) })
+        for (const component of components) {
+          const issues = getColorIssues(component)
+          if (issues.length === 0) {
+            continue
+          }
+
+          const colors = getDistinctColors(issues)
+          if (colors.length > 1) {
+            skipped++
+            continue
+          }
+
+          addCurrentColorEdits(edit, uri, issues, {
+            needsConfirmation: true,
+            label: `${component.name}: ${colors[0]} → currentColor`,
+            description: vscode.workspace.asRelativePath(uri),
+          })
+          fixed++
+        }
+      }
+    }
+  )
+
+  const skippedMessage =
+    skipped > 0 ? ` ${skipped} multi-color icons were skipped; use the quick fix on each of them.` : ''
+
+  if (fixed === 0) {
+    vscode.window.showInformationMessage(
+      `React SVG Preview: No single-color icons with hard-coded colors found.${skippedMessage}`
+    )
+    return
+  }
+
+  await vscode.workspace.applyEdit(edit, { isRefactoring: true })
+  if (skippedMessage) {
+    vscode.window.showInformationMessage(`React SVG Preview:${skippedMessage}`)
+  }
+}
+
+/**
+ * Register the color quick fixes and the workspace command
+ */
+export function createNormalizeColorsProvider(context: vscode.ExtensionContext): void {
+  const provider = vscode.languages.registerCodeActionsProvider(
+    [
+      { language: 'typescriptreact', scheme: 'file' },
+      { language: 'javascriptreact', scheme: 'file' },
+      { language: 'typescript', scheme: 'file' },
+      { language: 'javascript', scheme: 'file' },
+      { language: 'vue', scheme: 'file' },
+      { language: 'svelte', scheme: 'file' },
+      { language: 'html', scheme: 'file' },
+    ],
+    new NormalizeColorsActionProvider(),
+    { providedCodeActionKinds: NormalizeColorsActionProvider.providedCodeActionKinds }
+  )
+
+  const command = vscode.commands.registerCommand(
+    NORMALIZE_WORKSPACE_COMMAND,
+    normalizeColorsInWorkspace
+  )
+
+  context.subscriptions.push(provider, command)
+}
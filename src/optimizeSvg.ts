@@ -0,0 +1,181 @@
+/**
+ * Optimize SVG - Command and code action that shrink icon markup in place and report the savings
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { findComponentAtLine, isRawSvgContent } from './svgParser'
+import { getDocumentComponents } from './documentModel'
+import { optimizeSvg } from './svgOptimizer'
+
+const OPTIMIZE_COMMAND = 'reactSvgPreview.optimizeSvg'
+
+/**
+ * Check if a document is a standalone .svg file
+ */
+function isSvgDocument(document: vscode.TextDocument): boolean {
+  return document.fileName.endsWith('.svg') && isRawSvgContent(document.getText().trim())
+}
+
+/**
+ * Format a byte count with thousands separators
+ */
+function formatBytes(bytes: number): string {
+  return `${bytes.toLocaleString()} B`
+}
+
+/**
+ * Provide an "optimize SVG" action on detected icon components and .svg files
+ */
+class OptimizeSvgActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.RefactorRewrite]
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection
+  ): vscode.CodeAction[] {
+    let title: string
+    let componentName: string | undefined
+
+    if (isSvgDocument(document)) {
+      title = 'Optimize SVG file'
+    } else {
+      const component = findComponentAtLine(getDocumentComponents(document), range.start.line)
+      // Data URIs are re-encoded by their own actions
+      if (!component || component.dataUriEncoding) {
+        return []
+      }
+      title = `Optimize SVG in ${component.name}`
+      componentName = component.name
+    }
+
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.RefactorRewrite)
+    action.command = {
+      command: OPTIMIZE_COMMAND,
+      title,
+      arguments: [document.uri, componentName],
+    }
+    return [action]
+  }
+}
+
+/**
+ * Optimize the markup of a .svg file, or of one component (the one at the cursor
+ * or one picked from a list), and report the bytes saved
+ */
+async function optimizeSvgCommand(uri?: vscode.Uri, componentName?: string): Promise<void> {
+  const editor = vscode.window.activeTextEditor
+  const document = uri ? await vscode.workspace.openTextDocument(uri) : editor?.document
+  if (!document) {
+    return
+  }
+
+  const config = vscode.workspace.getConfiguration('reactSvgPreview')
+  const precision = config.get<number>('optimizerPrecision', 3)
+
+  let label: string
+  let range: vscode.Range
+  let markup: string
+  let jsx: boolean
+
+  if (isSvgDocument(document)) {
+    label = path.basename(document.fileName)
+    markup = document.getText()
+    range = new vscode.Range(document.positionAt(0), document.positionAt(markup.length))
+    jsx = false
+  } else {
+    const components = getDocumentComponents(document)
+    let component = componentName
+      ? components.find((c) => c.name === componentName)
+      : editor?.document === document
+        ? findComponentAtLine(components, editor.selection.active.line)
+        : undefined
+
+    if (!component && !componentName && components.length > 0) {
+      const picked = await vscode.window.showQuickPick(
+        components.map((c) => ({ label: c.name, component: c })),
+        { placeHolder: 'Select an icon component to optimize' }
+      )
+      component = picked?.component
+      if (!component) {
+        return
+      }
+    }
+
+    if (!component) {
+      vscode.window.showWarningMessage('React SVG Preview: No SVG component found to optimize')
+      return
+    }
+
+    // The parser keeps the exact source of the <svg> element, so find it inside the declaration
+    const text = document.getText()
+    const offset = text.indexOf(component.rawJsx, document.offsetAt(new vscode.Position(component.startLine, 0)))
+    if (offset === -1) {
+      // Factory icons such as createSvgIcon(...) or createElement trees have no <svg> markup in the source
+      vscode.window.showWarningMessage(
+        `React SVG Preview: ${component.name} is not written as <svg> markup and can't be optimized in place`
+      )
+      return
+    }
+
+    label = component.name
+    markup = component.rawJsx
+    range = new vscode.Range(document.positionAt(offset), document.positionAt(offset + markup.length))
+    jsx = !component.isRawSvg
+  }
+
+  let result: ReturnType<typeof optimizeSvg>
+  try {
+    result = optimizeSvg(markup, { precision, jsx })
+  } catch (error) {
+    console.error(`Failed to optimize ${label}:`, error)
+    vscode.window.showWarningMessage(
+      `React SVG Preview: Could not optimize ${label}: ${error instanceof Error ? error.message : error}`
+    )
+    return
+  }
+
+  // A whole .svg file keeps its trailing newline
+  const optimized = !jsx && /\n$/.test(markup) ? `${result.markup}\n` : result.markup
+  const saved = result.originalBytes - Buffer.byteLength(optimized)
+  if (saved <= 0) {
+    vscode.window.showInformationMessage(`React SVG Preview: ${label} is already optimized`)
+    return
+  }
+
+  const edit = new vscode.WorkspaceEdit()
+  edit.replace(document.uri, range, optimized)
+  await vscode.workspace.applyEdit(edit)
+
+  const percent = Math.round((saved / result.originalBytes) * 100)
+  vscode.window.showInformationMessage(
+    `React SVG Preview: Optimized ${label}: ${formatBytes(result.originalBytes)} → ${formatBytes(
+      result.originalBytes - saved
+    )} (${percent}% smaller)`
+  )
+}
+
+/**
+ * Register the optimize code action provider and command
+ */
+export function createOptimizeSvgProvider(context: vscode.ExtensionContext): void {
+  const provider = vscode.languages.registerCodeActionsProvider(
+    [
+      { language: 'typescriptreact', scheme: 'file' },
+      { language: 'javascriptreact', scheme: 'file' },
+      { language: 'typescript', scheme: 'file' },
+      { language: 'javascript', scheme: 'file' },
+      { language: 'xml', scheme: 'file' },
+      { language: 'svg', scheme: 'file' },
+      { language: 'vue', scheme: 'file' },
+      { language: 'svelte', scheme: 'file' },
+      { language: 'html', scheme: 'file' },
+    ],
+    new OptimizeSvgActionProvider(),
+    { providedCodeActionKinds: OptimizeSvgActionProvider.providedCodeActionKinds }
+  )
+
+  const command = vscode.commands.registerCommand(OPTIMIZE_COMMAND, optimizeSvgCommand)
+
+  context.subscriptions.push(provider, command)
+}
@@ -0,0 +1,26 @@
+/**
+ * Output Channel - The extension's log in the Output panel, for failures users should be able to find
+ */
+
+import * as vscode from 'vscode'
+
+let channel: vscode.LogOutputChannel | undefined
+
+/**
+ * Create the "React SVG Preview" output channel
+ */
+export function initOutputChannel(context: vscode.ExtensionContext): void {
+  channel = vscode.window.createOutputChannel('React SVG Preview', { log: true })
+  context.subscriptions.push(channel)
+}
+
+/**
+ * Log an error to the output channel, or the console before it exists
+ */
+export function logError(message: string, error: unknown): void {
+  if (!channel) {
+    console.error(message, error)
+    return
+  }
+  channel.error(`${message} ${error instanceof Error ? error.stack ?? error.message : String(error)}`)
+}
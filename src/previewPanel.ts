@@ -0,0 +1,107 @@
+/**
+ * Preview Panel - Webview showing one icon at a large size on several backgrounds
+ */
+
+import * as vscode from 'vscode'
+import { ParsedSvgComponent } from './svgParser'
+import { svgToDataUri, escapeHtml, createNonce } from './utils'
+
+let currentPanel: vscode.WebviewPanel | undefined
+
+/**
+ * Build the preview HTML. Sizing and backgrounds are handled in the webview.
+ */
+function getPreviewHtml(component: ParsedSvgComponent): string {
+  const nonce = createNonce()
+  const details = [
+    component.viewBox ? `viewBox ${component.viewBox}` : '',
+    component.width && component.height ? `${component.width} × ${component.height}` : '',
+  ]
+    .filter((detail) => detail.length > 0)
+    .join(' · ')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <style nonce="${nonce}">
+    body { padding: 0 16px 16px; font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .toolbar { display: flex; gap: 12px; align-items: center; padding: 12px 0; }
+    .toolbar h2 { flex: 1; margin: 0; font-size: 14px; }
+    .toolbar button { padding: 4px 10px; color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); border: none; cursor: pointer; }
+    .toolbar button.active { color: var(--vscode-button-foreground); background: var(--vscode-button-background); }
+    .details { opacity: 0.7; }
+    .stage { display: flex; align-items: center; justify-content: center; padding: 24px; border: 1px solid var(--vscode-panel-border); border-radius: 4px; }
+    .stage img { width: var(--size); height: var(--size); object-fit: contain; }
+    .stage.light { background: #ffffff; }
+    .stage.dark { background: #1e1e1e; }
+    .stage.checkerboard { background: repeating-conic-gradient(#cccccc 0% 25%, #ffffff 0% 50%) 0 0 / 16px 16px; }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <h2>${escapeHtml(component.name)} <span class="details">${escapeHtml(details)}</span></h2>
+    <input id="size" type="range" min="32" max="512" step="16" value="256" />
+    <button data-background="theme" class="active">Theme</button>
+    <button data-background="light">Light</button>
+    <button data-background="dark">Dark</button>
+    <button data-background="checkerboard">Checkerboard</button>
+  </div>
+  <div id="stage" class="stage">
+    <img src="${svgToDataUri(component.svg)}" alt="${escapeHtml(component.name)}" />
+  </div>
+  <script nonce="${nonce}">
+    const stage = document.getElementById('stage')
+    const size = document.getElementById('size')
+
+    // Inline style attributes are blocked by the CSP, so size is set from script
+    stage.style.setProperty('--size', size.value + 'px')
+
+    size.addEventListener('input', (event) => {
+      stage.style.setProperty('--size', event.target.value + 'px')
+    })
+
+    for (const button of document.querySelectorAll('[data-background]')) {
+      button.addEventListener('click', () => {
+        for (const other of document.querySelectorAll('[data-background]')) {
+          other.classList.toggle('active', other === button)
+        }
+        stage.classList.remove('light', 'dark', 'checkerboard')
+        if (button.dataset.background !== 'theme') {
+          stage.classList.add(button.dataset.background)
+        }
+      })
+    }
+  </script>
+</body>
+</html>`
+}
+
+/**
+ * Open (or update) the preview panel beside the editor with an icon
+ */
+export function openPreviewPanel(context: vscode.ExtensionContext, component: ParsedSvgComponent): void {
+  if (!currentPanel) {
+    currentPanel = vscode.window.createWebviewPanel(
+      'reactSvgPreview.preview',
+      `Preview: ${component.name}`,
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      { enableScripts: true }
+    )
+
+    currentPanel.onDidDispose(
+      () => {
+        currentPanel = undefined
+      },
+      undefined,
+      context.subscriptions
+    )
+  } else {
+    currentPanel.title = `Preview: ${component.name}`
+    currentPanel.reveal(vscode.ViewColumn.Beside, true)
+  }
+
+  currentPanel.webview.html = getPreviewHtml(component)
+}
@@ -0,0 +1,94 @@
+/**
+ * Sprite Index - Find the SVG sprite files of the workspace and keep their symbols indexed
+ */
+
+import * as vscode from 'vscode'
+import { setSpriteFile, removeSpriteFile, clearSpriteSymbols, hasSpriteFiles } from './spriteSheet'
+
+const SPRITE_EXCLUDE = '**/{node_modules,out,dist,build,.git}/**'
+
+/**
+ * Read a sprite file and index its symbols
+ */
+async function indexSpriteFile(uri: vscode.Uri): Promise<void> {
+  try {
+    const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')
+    setSpriteFile(uri.fsPath, text)
+  } catch (error) {
+    console.error(`Failed to read sprite file ${uri.fsPath}:`, error)
+  }
+}
+
+/**
+ * Index the sprite files matching `reactSvgPreview.spriteFiles` and watch them for changes.
+ * `onDidChange` is called when the indexed symbols changed, so previews can be rebuilt.
+ */
+export function createSpriteIndex(context: vscode.ExtensionContext, onDidChange: () => void): void {
+  let watchers: vscode.FileSystemWatcher[] = []
+
+  const update = async (uri: vscode.Uri) => {
+    await indexSpriteFile(uri)
+    try {
+      onDidChange()
+    } catch (error) {
+      console.error(`Failed to rebuild previews after ${uri.fsPath} changed:`, error)
+    }
+  }
+
+  const remove = (uri: vscode.Uri) => {
+    removeSpriteFile(uri.fsPath)
+    onDidChange()
+  }
+
+  // Errors are logged, since nothing awaits the rebuild
+  const refresh = async () => {
+    try {
+      const globs = vscode.workspace
+        .getConfiguration('reactSvgPreview')
+        .get<string[]>('spriteFiles', ['**/*sprite*.svg'])
+      const hadSprites = hasSpriteFiles()
+
+      for (const watcher of watchers) {
+        watcher.dispose()
+      }
+      watchers = globs.map((glob) => {
+        const watcher = vscode.workspace.createFileSystemWatcher(glob)
+        watcher.onDidCreate(update)
+        watcher.onDidChange(update)
+        watcher.onDidDelete(remove)
+        return watcher
+      })
+
+      clearSpriteSymbols()
+      for (const glob of globs) {
+        for (const uri of await vscode.workspace.findFiles(glob, SPRITE_EXCLUDE)) {
+          await indexSpriteFile(uri)
+        }
+      }
+
+      // Nothing to rebuild when there were and are no sprites
+      if (hadSprites || hasSpriteFiles()) {
+        onDidChange()
+      }
+    } catch (error) {
+      console.error('Failed to index sprite files:', error)
+    }
+  }
+
+  const configChangeListener = vscode.workspace.onDidChangeConfiguration((event) => {
+    if (event.affectsConfiguration('reactSvgPreview.spriteFiles')) {
+      refresh()
+    }
+  })
+
+  refresh()
+
+  context.subscriptions.push(configChangeListener, {
+    dispose: () => {
+      for (const watcher of watchers) {
+        watcher.dispose()
+      }
+      clearSpriteSymbols()
+    },
+  })
+}
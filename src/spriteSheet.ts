@@ -0,0 +1,155 @@
+/**
+ * Sprite Sheet - Index of the <symbol>s in SVG sprite files, used to preview icons that
+ * draw a symbol with <use href="sprite.svg#id">
+ */
+
+import * as path from 'path'
+
+export interface SpriteSymbol {
+  id: string
+  viewBox?: string
+  /** Markup inside the <symbol> element */
+  content: string
+  /** Path of the sprite file that defines the symbol */
+  filePath: string
+  /** Line of the <symbol> tag (0-based) */
+  line: number
+}
+
+// Symbols by sprite file path, then by id
+const spriteFiles: Map<string, Map<string, SpriteSymbol>> = new Map()
+
+// <use> elements referencing a symbol with href or xlink:href
+const USE_HREF_PATTERN = /(<use\b[^>]*?\s)(?:xlink:)?href=(["'])([^"'#]*#[^"']+)\2/g
+
+/**
+ * Read the <symbol>s of a sprite file
+ */
+export function parseSpriteSymbols(text: string, filePath: string): SpriteSymbol[] {
+  const symbols: SpriteSymbol[] = []
+
+  for (const match of text.matchAll(/<symbol\b([^>]*)>([\s\S]*?)<\/symbol\s*>/g)) {
+    const attrs = match[1]
+    const id = attrs.match(/\sid=["']([^"']+)["']/)?.[1]
+    if (!id) {
+      continue
+    }
+    symbols.push({
+      id,
+      viewBox: attrs.match(/\sviewBox=["']([^"']+)["']/)?.[1],
+      content: match[2].trim(),
+      filePath,
+      line: text.slice(0, match.index).split('\n').length - 1,
+    })
+  }
+
+  return symbols
+}
+
+/**
+ * Index (or re-index) the symbols of a sprite file
+ */
+export function setSpriteFile(filePath: string, text: string): void {
+  const symbols = parseSpriteSymbols(text, filePath)
+  if (symbols.length > 0) {
+    spriteFiles.set(filePath, new Map(symbols.map((symbol) => [symbol.id, symbol])))
+  } else {
+    spriteFiles.delete(filePath)
+  }
+}
+
+/**
+ * Forget the symbols of a deleted sprite file
+ */
+export function removeSpriteFile(filePath: string): void {
+  spriteFiles.delete(filePath)
+}
+
+/**
+ * Check if any sprite file with symbols is indexed
+ */
+export function hasSpriteFiles(): boolean {
+  return spriteFiles.size > 0
+}
+
+/**
+ * Forget all indexed sprite files
+ */
+export function clearSpriteSymbols(): void {
+  spriteFiles.clear()
+}
+
+/**
+ * Find the symbol a reference such as `#icon-home` or `/sprite.svg#icon-home` points to.
+ * When several sprites define the id, the one with the referenced file name wins.
+ */
+export function resolveSpriteSymbol(href: string): SpriteSymbol | undefined {
+  const hashIndex = href.lastIndexOf('#')
+  if (hashIndex === -1) {
+    return undefined
+  }
+
+  const id = href.slice(hashIndex + 1)
+  const fileName = path.basename(href.slice(0, hashIndex).replace(/\?.*$/, ''))
+  let found: SpriteSymbol | undefined
+
+  for (const [filePath, symbols] of spriteFiles) {
+    const symbol = symbols.get(id)
+    if (symbol && fileName && path.basename(filePath) === fileName) {
+      return symbol
+    }
+    found = found ?? symbol
+  }
+
+  return found
+}
+
+/**
+ * Get the symbol's markup with currentColor replaced by the preview fill color
+ */
+function getSymbolContent(symbol: SpriteSymbol, defaultFillColor?: string): string {
+  return defaultFillColor ? symbol.content.replace(/currentColor/g, defaultFillColor) : symbol.content
+}
+
+/**
+ * Inline the sprite symbols an SVG refers to with <use>, so the preview draws them.
+ * References are pointed at the inlined copies, which don't need the xlink namespace.
+ */
+export function inlineSpriteSymbols(svg: string, defaultFillColor?: string): string {
+  if (spriteFiles.size === 0) {
+    return svg
+  }
+
+  const used: Map<string, SpriteSymbol> = new Map()
+  const result = svg.replace(USE_HREF_PATTERN, (match, prefix: string, quote: string, href: string) => {
+    const symbol = resolveSpriteSymbol(href)
+    // Symbols defined in the icon itself are drawn already
+    if (!symbol || svg.includes(`id="${symbol.id}"`)) {
+      return match
+    }
+    used.set(symbol.id, symbol)
+    return `${prefix}href=${quote}#${symbol.id}${quote}`
+  })
+
+  if (used.size === 0) {
+    return svg
+  }
+
+  const defs = Array.from(used.values())
+    .map((symbol) => {
+      const viewBox = symbol.viewBox ? ` viewBox="${symbol.viewBox}"` : ''
+      return `<symbol id="${symbol.id}"${viewBox}>${getSymbolContent(symbol, defaultFillColor)}</symbol>`
+    })
+    .join('')
+  return result.replace(/<svg\b[^>]*>/, (rootTag) => `${rootTag}<defs>${defs}</defs>`)
+}
+
+/**
+ * Convert a symbol to a standalone SVG for previewing it on its own
+ */
+export function symbolToSvg(symbol: SpriteSymbol, defaultFillColor?: string): string {
+  const viewBox = symbol.viewBox ?? '0 0 24 24'
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}" width="16" height="16" fill="${
+    defaultFillColor ?? 'currentColor'
+  }">${getSymbolContent(symbol, defaultFillColor)}</svg>`
+}
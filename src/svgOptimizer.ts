@@ -0,0 +1,619 @@
+/**
+ * SVG Optimizer - Shrink SVG and JSX icon markup in place
+ *
+ * Markup is tokenized rather than fully parsed, so JSX expressions ({...props},
+ * fill={color}) and formatting between elements are kept as written.
+ */
+
+import { convertJsxAttr } from './utils'
+
+interface SvgAttribute {
+  /** Attribute name as written; empty for spread expressions */
+  name: string
+  /** Quoted value */
+  value?: string
+  quote?: string
+  /** JSX expression source, including braces */
+  expression?: string
+}
+
+interface SvgElement {
+  type: 'element'
+  name: string
+  attrs: SvgAttribute[]
+  children: SvgNode[]
+  selfClosing: boolean
+}
+
+interface SvgText {
+  type: 'text'
+  text: string
+}
+
+type SvgNode = SvgElement | SvgText
+
+export interface SvgOptimizeOptions {
+  /** Decimal places kept in coordinates */
+  precision?: number
+  /** The markup is JSX, so attribute names are camelCase and braces are expressions */
+  jsx?: boolean
+}
+
+export interface SvgOptimizeResult {
+  markup: string
+  originalBytes: number
+  optimizedBytes: number
+}
+
+/**
+ * Attributes with their default value, by SVG attribute name.
+ * Inherited properties are only removed when no element sets a different value.
+ */
+const DEFAULT_ATTRIBUTES: Record<string, { value: string; inherited: boolean }> = {
+  'opacity': { value: '1', inherited: false },
+  'fill-opacity': { value: '1', inherited: true },
+  'stroke-opacity': { value: '1', inherited: true },
+  'fill-rule': { value: 'nonzero', inherited: true },
+  'clip-rule': { value: 'nonzero', inherited: true },
+  'stroke-linecap': { value: 'butt', inherited: true },
+  'stroke-linejoin': { value: 'miter', inherited: true },
+  'stroke-miterlimit': { value: '4', inherited: true },
+  'stroke-dashoffset': { value: '0', inherited: true },
+  'stroke-width': { value: '1', inherited: true },
+}
+
+/**
+ * Editor metadata attributes, by SVG attribute name
+ */
+const METADATA_ATTRIBUTES = new Set(['data-name', 'enable-background', 'version', 'xml:space'])
+
+/**
+ * Attributes whose values are lists of coordinates
+ */
+const COORDINATE_ATTRIBUTES = new Set([
+  'd', 'points', 'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry',
+  'width', 'height', 'stroke-width', 'transform',
+])
+
+/**
+ * Elements removed when they have no child elements
+ */
+const REMOVABLE_EMPTY_ELEMENTS = new Set(['g', 'defs'])
+
+const NUMBER_PATTERN = /[-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?/gi
+
+/**
+ * Read a balanced {...} expression starting at `start`, skipping over string literals
+ */
+function readExpression(markup: string, start: number): number {
+  let depth = 0
+  let i = start
+  while (i < markup.length) {
+    const char = markup[i]
+    if (char === '"' || char === "'" || char === '`') {
+      i = markup.indexOf(char, i + 1)
+      if (i === -1) {
+        throw new Error('Unterminated string in JSX expression')
+      }
+    } else if (char === '{') {
+      depth++
+    } else if (char === '}') {
+      depth--
+      if (depth === 0) {
+        return i + 1
+      }
+    }
+    i++
+  }
+  throw new Error('Unterminated JSX expression')
+}
+
+/**
+ * Parse markup into a node tree. Comments, XML declarations and doctypes are dropped.
+ */
+function parseMarkup(markup: string, jsx: boolean): SvgNode[] {
+  const root: SvgElement = { type: 'element', name: '', attrs: [], children: [], selfClosing: false }
+  const stack: SvgElement[] = [root]
+  let i = 0
+
+  const current = () => stack[stack.length - 1]
+
+  while (i < markup.length) {
+    if (markup.startsWith('<!--', i)) {
+      const end = markup.indexOf('-->', i)
+      i = end === -1 ? markup.length : end + 3
+    } else if (markup.startsWith('<?', i) || markup.startsWith('<!', i)) {
+      const end = markup.indexOf('>', i)
+      i = end === -1 ? markup.length : end + 1
+    } else if (markup.startsWith('</', i)) {
+      const end = markup.indexOf('>', i)
+      const name = markup.slice(i + 2, end).trim()
+      if (stack.length <= 1 || current().name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`)
+      }
+      stack.pop()
+      i = end + 1
+    } else if (markup[i] === '<') {
+      const nameMatch = markup.slice(i + 1).match(/^[^\s/>]+/)
+      if (!nameMatch) {
+        throw new Error('Invalid tag')
+      }
+      const element: SvgElement = {
+        type: 'element',
+        name: nameMatch[0],
+        attrs: [],
+        children: [],
+        selfClosing: false,
+      }
+      i += 1 + nameMatch[0].length
+
+      while (i < markup.length) {
+        while (/\s/.test(markup[i])) {
+          i++
+        }
+        if (markup.startsWith('/>', i)) {
+          element.selfClosing = true
+          i += 2
+          break
+        }
+        if (markup[i] === '>') {
+          i++
+          break
+        }
+        if (markup[i] === '{') {
+          const end = readExpression(markup, i)
+          element.attrs.push({ name: '', expression: markup.slice(i, end) })
+          i = end
+          continue
+        }
+
+        const attrName = (markup.slice(i).match(/^[^\s=/>]+/) as RegExpMatchArray)[0]
+        i += attrName.length
+        while (/\s/.test(markup[i])) {
+          i++
+        }
+        if (markup[i] !== '=') {
+          element.attrs.push({ name: attrName })
+          continue
+        }
+        i++
+        while (/\s/.test(markup[i])) {
+          i++
+        }
+        if (markup[i] === '{') {
+          const end = readExpression(markup, i)
+          element.attrs.push({ name: attrName, expression: markup.slice(i, end) })
+          i = end
+        } else {
+          const quote = markup[i]
+          const end = markup.indexOf(quote, i + 1)
+          element.attrs.push({ name: attrName, value: markup.slice(i + 1, end), quote })
+          i = end + 1
+        }
+      }
+
+      current().children.push(element)
+      if (!element.selfClosing) {
+        stack.push(element)
+      }
+    } else if (jsx && markup.startsWith('{/*', i)) {
+      // JSX comment
+      i = readExpression(markup, i)
+    } else if (jsx && markup[i] === '{') {
+      const end = readExpression(markup, i)
+      current().children.push({ type: 'text', text: markup.slice(i, end) })
+      i = end
+    } else {
+      let end = i
+      while (end < markup.length && markup[end] !== '<' && !(jsx && markup[end] === '{')) {
+        end++
+      }
+      current().children.push({ type: 'text', text: markup.slice(i, end) })
+      i = end
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed tag <${current().name}>`)
+  }
+  return root.children
+}
+
+/**
+ * Walk all elements in the tree
+ */
+function forEachElement(nodes: SvgNode[], callback: (element: SvgElement) => void): void {
+  for (const node of nodes) {
+    if (node.type === 'element') {
+      callback(node)
+      forEachElement(node.children, callback)
+    }
+  }
+}
+
+/**
+ * Remove children that match, together with the whitespace line before them
+ */
+function removeChildren(parent: SvgNode[], shouldRemove: (element: SvgElement) => boolean): SvgNode[] {
+  const result: SvgNode[] = []
+  for (const node of parent) {
+    if (node.type === 'element' && shouldRemove(node)) {
+      const previous = result[result.length - 1]
+      if (previous?.type === 'text' && /^\s*$/.test(previous.text) && previous.text.includes('\n')) {
+        result.pop()
+      }
+      continue
+    }
+    result.push(node)
+  }
+  return result
+}
+
+/**
+ * Round a number to the given precision, without trailing zeros
+ */
+function roundNumber(value: string, precision: number): string {
+  const rounded = Number(parseFloat(value).toFixed(precision))
+  return String(Object.is(rounded, -0) ? 0 : rounded)
+}
+
+/**
+ * Round all numbers in a coordinate list. Numbers that were only separated by
+ * their sign or decimal point (e.g. "1.5.5") get a space so they stay separate.
+ */
+function roundNumbers(value: string, precision: number): string {
+  return value.replace(NUMBER_PATTERN, (match, offset: number) => {
+    const rounded = roundNumber(match, precision)
+    const needsSeparator = offset > 0 && /[0-9.]/.test(value[offset - 1])
+    return needsSeparator ? ` ${rounded}` : rounded
+  })
+}
+
+interface PathToken {
+  type: 'command' | 'number' | 'flag'
+  text: string
+  /** Offset in the path data */
+  start: number
+}
+
+/**
+ * Split path data into commands, numbers and arc flags. Arc flags (the 4th and 5th arc
+ * arguments) are single digits that may be written without separators, as in "a3 3 0 11-6 0".
+ * Returns undefined for data that isn't a valid path.
+ */
+function tokenizePathData(data: string): PathToken[] | undefined {
+  const tokens: PathToken[] = []
+  const number = new RegExp(NUMBER_PATTERN.source, 'iy')
+  let command = ''
+  let argIndex = 0
+  let i = 0
+
+  while (i < data.length) {
+    const char = data[i]
+    if (/[\s,]/.test(char)) {
+      i++
+    } else if (/[MmZzLlHhVvCcSsQqTtAa]/.test(char)) {
+      tokens.push({ type: 'command', text: char, start: i })
+      command = char
+      argIndex = 0
+      i++
+    } else if ((command === 'a' || command === 'A') && (argIndex % 7 === 3 || argIndex % 7 === 4)) {
+      if (char !== '0' && char !== '1') {
+        return undefined
+      }
+      tokens.push({ type: 'flag', text: char, start: i })
+      argIndex++
+      i++
+    } else {
+      number.lastIndex = i
+      const match = number.exec(data)
+      if (!match) {
+        return undefined
+      }
+      tokens.push({ type: 'number', text: match[0], start: i })
+      argIndex++
+      i += match[0].length
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Round the numbers of path data, keeping its formatting. Arc flags are never rounded.
+ */
+function roundPathData(data: string, precision: number): string {
+  const tokens = tokenizePathData(data)
+  if (!tokens) {
+    return data
+  }
+
+  let result = ''
+  let offset = 0
+  tokens.forEach((token, index) => {
+    result += data.slice(offset, token.start)
+    offset = token.start + token.text.length
+    if (token.type !== 'number') {
+      result += token.text
+      return
+    }
+    const rounded = roundNumber(token.text, precision)
+    // Numbers that were only separated by their sign or decimal point get a space,
+    // unless the rounded number still starts with its sign
+    const previous = tokens[index - 1]
+    const needsSeparator =
+      previous?.type === 'number' &&
+      previous.start + previous.text.length === token.start &&
+      /[0-9.]$/.test(result) &&
+      !/^[-+]/.test(rounded)
+    result += needsSeparator ? ` ${rounded}` : rounded
+  })
+
+  return result + data.slice(offset)
+}
+
+/**
+ * Remove identity transforms and merge consecutive translates
+ */
+function collapseTransform(transform: string): string {
+  const functions = transform.match(/\w+\s*\([^)]*\)/g) ?? []
+  const result: string[] = []
+
+  for (const fn of functions) {
+    const [, name, args] = fn.match(/(\w+)\s*\(([^)]*)\)/) as RegExpMatchArray
+    const values = (args.match(NUMBER_PATTERN) ?? []).map(parseFloat)
+
+    const isIdentity =
+      (name === 'translate' && values.every((v) => v === 0)) ||
+      (name === 'scale' && values.every((v) => v === 1)) ||
+      ((name === 'rotate' || name === 'skewX' || name === 'skewY') && values[0] === 0) ||
+      (name === 'matrix' && values.join(' ') === '1 0 0 1 0 0')
+    if (isIdentity) {
+      continue
+    }
+
+    const previous = result[result.length - 1]
+    const previousTranslate = previous?.match(/^translate\(([^)]*)\)$/)
+    if (name === 'translate' && previousTranslate) {
+      const [px, py = 0] = (previousTranslate[1].match(NUMBER_PATTERN) ?? []).map(parseFloat)
+      const [x, y = 0] = values
+      result[result.length - 1] = `translate(${px + x} ${py + y})`
+      continue
+    }
+
+    result.push(`${name}(${values.join(' ')})`)
+  }
+
+  return result.join(' ')
+}
+
+/**
+ * Serialize nodes back to markup
+ */
+function serialize(nodes: SvgNode[], jsx: boolean): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text') {
+        return node.text
+      }
+      const attrs = node.attrs
+        .map((attr) => {
+          if (attr.expression !== undefined) {
+            return attr.name ? `${attr.name}=${attr.expression}` : attr.expression
+          }
+          if (attr.value === undefined) {
+            return attr.name
+          }
+          return `${attr.name}=${attr.quote}${attr.value}${attr.quote}`
+        })
+        .join(' ')
+      const open = `<${node.name}${attrs ? ` ${attrs}` : ''}`
+      if (node.selfClosing) {
+        return `${open}${jsx ? ' />' : '/>'}`
+      }
+      return `${open}>${serialize(node.children, jsx)}</${node.name}>`
+    })
+    .join('')
+}
+
+/**
+ * Optimize SVG or JSX icon markup: strip editor metadata, empty groups and default
+ * attributes, round coordinates and collapse redundant transforms
+ */
+export function optimizeSvg(markup: string, options: SvgOptimizeOptions = {}): SvgOptimizeResult {
+  const { precision = 3, jsx = false } = options
+  let nodes = parseMarkup(markup, jsx)
+
+  // JSX attribute names are converted so the SVG name tables apply to both forms
+  const svgName = (attr: SvgAttribute) => (jsx ? convertJsxAttr(attr.name) : attr.name)
+
+  // Strip editor metadata: <metadata>, editor namespaces and editor-only attributes
+  const isMetadata = (element: SvgElement) =>
+    element.name === 'metadata' ||
+    element.name.includes(':') ||
+    (element.name === 'desc' &&
+      element.children.some((child) => child.type === 'text' && /^\s*Created with/.test(child.text)))
+
+  const stripMetadata = (children: SvgNode[]): SvgNode[] =>
+    removeChildren(children, isMetadata).map((node) => {
+      if (node.type === 'element') {
+        node.attrs = node.attrs.filter((attr) => {
+          const name = svgName(attr)
+          const isEditorNamespace =
+            name.includes(':') && !/^(?:xlink:|xml:lang$|xmlns:xlink$)/.test(name)
+          return !isEditorNamespace && !METADATA_ATTRIBUTES.has(name)
+        })
+        node.children = stripMetadata(node.children)
+      }
+      return node
+    })
+  nodes = stripMetadata(nodes)
+
+  // Inherited defaults are only safe to remove when no element overrides them. A spread
+  // like {...props} may set any of them, and a default next to one may override a prop.
+  const hasSpread = (element: SvgElement) => element.attrs.some((attr) => attr.name === '')
+  const overridden = new Set<string>()
+  forEachElement(nodes, (element) => {
+    if (hasSpread(element)) {
+      Object.keys(DEFAULT_ATTRIBUTES).forEach((name) => overridden.add(name))
+    }
+    for (const attr of element.attrs) {
+      const name = svgName(attr)
+      const defaultValue = DEFAULT_ATTRIBUTES[name]
+      if (defaultValue && (attr.expression !== undefined || attr.value?.trim() !== defaultValue.value)) {
+        overridden.add(name)
+      }
+    }
+  })
+
+  forEachElement(nodes, (element) => {
+    const spread = hasSpread(element)
+    element.attrs = element.attrs
+      .filter((attr) => {
+        const name = svgName(attr)
+        const defaultValue = DEFAULT_ATTRIBUTES[name]
+        if (spread || !defaultValue || attr.value?.trim() !== defaultValue.value) {
+          return true
+        }
+        return defaultValue.inherited && overridden.has(name)
+      })
+      .map((attr) => {
+        const name = svgName(attr)
+        if (attr.value === undefined || !COORDINATE_ATTRIBUTES.has(name)) {
+          return attr
+        }
+        if (name === 'd') {
+          return { ...attr, value: roundPathData(attr.value, precision) }
+        }
+        const value = name === 'transform' ? collapseTransform(attr.value) : attr.value
+        return { ...attr, value: roundNumbers(value, precision) }
+      })
+      // Drop attributes left empty, such as an identity transform
+      .filter((attr) => attr.value === undefined || attr.value.trim() !== '' || svgName(attr) !== 'transform')
+  })
+
+  // Remove empty groups, innermost first
+  const removeEmpty = (children: SvgNode[]): SvgNode[] =>
+    removeChildren(
+      children.map((node) => {
+        if (node.type === 'element') {
+          node.children = removeEmpty(node.children)
+        }
+        return node
+      }),
+      (element) =>
+        REMOVABLE_EMPTY_ELEMENTS.has(element.name) &&
+        !element.attrs.some((attr) => attr.name === 'id') &&
+        element.children.every((child) => child.type === 'text' && child.text.trim() === '')
+    )
+  nodes = removeEmpty(nodes)
+
+  // Comments leave their line behind, so drop lines that are now blank, except in CSS
+  const optimized = serialize(nodes, jsx)
+    .split(/(<style\b[^>]*>[\s\S]*?<\/style>)/)
+    .map((part, index) => (index % 2 === 1 ? part : part.replace(/\n[ \t]*(?=\r?\n)/g, '')))
+    .join('')
+    .trim()
+
+  return {
+    markup: optimized,
+    originalBytes: Buffer.byteLength(markup),
+    optimizedBytes: Buffer.byteLength(optimized),
+  }
+}
+
+export interface SvgFingerprintOptions {
+  /** Decimal places coordinates are rounded to before comparing */
+  precision?: number
+  /** Treat every fill and stroke color as the same */
+  ignoreColors?: boolean
+  /** Color that stands in for currentColor, e.g. the preview fill color */
+  currentColor?: string
+}
+
+/**
+ * Attributes that don't change how an icon looks, by SVG attribute name
+ */
+const NON_VISUAL_ATTRIBUTES = new Set(['id', 'class', 'role', 'focusable', 'style', 'xmlns', 'xmlns:xlink'])
+
+/**
+ * Attributes holding a paint color, by SVG attribute name
+ */
+const PAINT_ATTRIBUTES = new Set(['fill', 'stroke', 'color', 'stop-color', 'flood-color', 'lighting-color'])
+
+/**
+ * Get a canonical form of SVG markup for finding duplicate icons. Attribute order,
+ * number formatting, whitespace, ids, sizing and editor metadata are normalized away,
+ * so icons that draw the same shapes get the same fingerprint.
+ */
+export function getSvgFingerprint(markup: string, options: SvgFingerprintOptions = {}): string {
+  const { precision = 3, ignoreColors = false, currentColor } = options
+  const currentColorValue = currentColor?.trim().toLowerCase()
+
+  const normalizeValue = (name: string, value: string): string => {
+    let normalized = value.trim().replace(/\s+/g, ' ')
+    const pathTokens = name === 'd' ? tokenizePathData(normalized) : undefined
+    if (pathTokens) {
+      // Path commands, numbers and arc flags are separated by single spaces
+      return pathTokens
+        .map((token) => (token.type === 'number' ? roundNumber(token.text, precision) : token.text))
+        .join(' ')
+    }
+    if (COORDINATE_ATTRIBUTES.has(name)) {
+      normalized = roundNumbers(name === 'transform' ? collapseTransform(normalized) : normalized, precision)
+    }
+    // Numbers in point lists and unreadable path data are separated by single spaces
+    if (name === 'd' || name === 'points') {
+      normalized = normalized
+        .replace(/,/g, ' ')
+        .replace(/([a-zA-Z])/g, ' $1 ')
+        .replace(/\s+/g, ' ')
+        .trim()
+    }
+    if (PAINT_ATTRIBUTES.has(name)) {
+      normalized = normalized.toLowerCase()
+      if (normalized === currentColorValue) {
+        normalized = 'currentcolor'
+      }
+      if (ignoreColors && !/^(?:none|transparent)$/.test(normalized)) {
+        normalized = 'paint'
+      }
+    }
+    // References to renamed ids still match
+    return normalized.replace(/url\(\s*['"]?#[^)]*\)/g, 'url(#)')
+  }
+
+  const normalizeNodes = (nodes: SvgNode[], isRoot: boolean): string =>
+    nodes
+      .map((node) => {
+        if (node.type === 'text') {
+          return node.text.trim()
+        }
+        if (node.name === 'title' || node.name === 'desc' || node.name === 'metadata' || node.name.includes(':')) {
+          return ''
+        }
+        const attrs = node.attrs
+          .filter((attr) => {
+            const name = attr.name
+            if (
+              attr.value === undefined ||
+              NON_VISUAL_ATTRIBUTES.has(name) ||
+              METADATA_ATTRIBUTES.has(name) ||
+              /^(?:data|aria)-/.test(name)
+            ) {
+              return false
+            }
+            // Icons are compared regardless of the size they are drawn at
+            if (isRoot && node.name === 'svg' && (name === 'width' || name === 'height')) {
+              return false
+            }
+            return DEFAULT_ATTRIBUTES[name]?.value !== attr.value.trim()
+          })
+          .map((attr) => `${attr.name}="${normalizeValue(attr.name, attr.value as string)}"`)
+          .sort()
+        return `<${node.name}${attrs.map((attr) => ` ${attr}`).join('')}>${normalizeNodes(node.children, false)}</${node.name}>`
+      })
+      .join('')
+
+  return normalizeNodes(parseMarkup(markup, false), true)
+}
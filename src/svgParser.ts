@@ -2,7 +2,9 @@
  * SVG Parser - Extract SVG content from React components and raw SVG files
  */
 
-import { jsxToSvg } from './utils'
+import * as ts from 'typescript'
+import { jsxToSvg, isThemeablePaint, SvgConversionIssue } from './utils'
+import { inlineSpriteSymbols } from './spriteSheet'
 
 export interface ParsedSvgComponent {
   /** Component name */
@@ -11,6 +13,10 @@ export interface ParsedSvgComponent {
   startLine: number
   /** Line number where the component ends (0-based) */
   endLine: number
+  /** Line of the component name, or of the declaration for anonymous default exports (0-based) */
+  nameLine?: number
+  nameStartCharacter?: number
+  nameEndCharacter?: number
   /** Raw JSX content of the SVG */
   rawJsx: string
   /** Converted standard SVG string */
@@ -23,129 +29,1162 @@ export interface ParsedSvgComponent {
   height?: number
   /** Whether this is a raw SVG file */
   isRawSvg?: boolean
+  /** Whether the component is the module's `export default` */
+  isDefaultExport?: boolean
+  /** Whether this is an <svg> embedded in a larger component's JSX, e.g. a button icon */
+  isEmbedded?: boolean
+  /**
+   * How the SVG data URI the icon was decoded from is written: URL-encoded, base64, or
+   * plain, with only the characters that break the URI escaped
+   */
+  dataUriEncoding?: 'url' | 'base64' | 'plain'
+  /** Template syntax of icons parsed from Vue, Svelte or Angular templates */
+  framework?: 'vue' | 'svelte' | 'angular'
+  /** Problems that make the icon or its preview inaccurate */
+  issues?: SvgIssue[]
 }
 
 /**
- * Pattern definitions for different component formats
+ * Kinds of icon problems reported as diagnostics
  */
-const PATTERNS = {
-  // Pattern 1: export function IconName() { return <svg>...</svg> }
-  functionComponent: /export\s+(?:default\s+)?function\s+(\w+)\s*\([^)]*\)\s*(?::\s*[^{]+)?\s*\{[\s\S]*?return\s*\(\s*(<(?:svg|Svg|Icon)\b[\s\S]*?<\/(?:svg|Svg|Icon)>)\s*\)/g,
+export type SvgIssueRule = 'missingViewBox' | 'hardcodedColor' | 'droppedExpression' | 'duplicateId'
 
-  // Pattern 2: export const IconName = () => <svg>...</svg> or with ()
-  arrowFunctionDirect: /export\s+const\s+(\w+)\s*(?::\s*[^=]+)?\s*=\s*\([^)]*\)\s*=>\s*\(\s*(<(?:svg|Svg|Icon)\b[\s\S]*?<\/(?:svg|Svg|Icon)>)\s*\)/g,
-  
-  // Pattern 2b: export const IconName = () => { return <svg>...</svg> }
-  arrowFunctionReturn: /export\s+const\s+(\w+)\s*(?::\s*[^=]+)?\s*=\s*\([^)]*\)\s*=>\s*\{[\s\S]*?return\s*\(\s*(<(?:svg|Svg|Icon)\b[\s\S]*?<\/(?:svg|Svg|Icon)>)\s*\)/g,
+export interface SvgIssue {
+  rule: SvgIssueRule
+  message: string
+  /** Line where the offending source starts (0-based) */
+  startLine: number
+  startCharacter: number
+  /** Line where the offending source ends (0-based) */
+  endLine: number
+  endCharacter: number
+  /** Attribute name and literal value, for attribute-level issues such as hardcodedColor */
+  attribute?: string
+  value?: string
+}
+
+/**
+ * Preview conversion of an <svg> element, reusable while its JSX and fill color are unchanged
+ */
+export interface SvgConversion {
+  svg: string
+  issues: SvgConversionIssue[]
+}
+
+/**
+ * JSX tag names that can be the root element of an icon
+ */
+const SVG_ROOT_TAGS = new Set(['svg', 'Svg', 'Icon'])
+
+/**
+ * Higher-order components that wrap an icon render function,
+ * e.g. forwardRef(...), React.memo(...), memo(forwardRef(...))
+ */
+const COMPONENT_WRAPPERS = new Set(['forwardRef', 'memo'])
+
+/**
+ * Element factories of React (createElement, React.createElement) and Preact/Solid hyperscript (h)
+ */
+const CREATE_ELEMENT_FUNCTIONS = new Set(['createElement', 'h'])
+
+/**
+ * Icon factories that take the icon's children, e.g. MUI createSvgIcon(<path d="..." />, 'Home')
+ */
+const ICON_FACTORIES = new Set(['createSvgIcon'])
+
+/**
+ * viewBox MUI's SvgIcon gives to createSvgIcon children
+ */
+const MUI_VIEW_BOX = '0 0 24 24'
+
+/**
+ * viewBox bare path strings in icon maps are drawn in, unless configured otherwise
+ */
+const DEFAULT_PATH_VIEW_BOX = '0 0 24 24'
+
+/**
+ * SVG path data: starts with a moveto and contains only path commands and numbers
+ */
+const PATH_DATA_PATTERN = /^\s*[Mm]\s*[-+.\d][-+.\d\seE,MmZzLlHhVvCcSsQqTtAa]*$/
+
+type SvgAttributes = { viewBox?: string; width?: number; height?: number }
+
+/**
+ * Icon markup found in a component, ready for conversion
+ */
+interface SvgSource {
+  /** JSX markup of the icon with an <svg>, <Svg> or <Icon> root */
+  jsx: string
+  /** Node containing the icon's markup, searched for attribute-level issues */
+  node: ts.Node
+  /** Node that icon-level issues such as a missing viewBox are reported on */
+  anchor: ts.Node
+  attrs: SvgAttributes
+}
+
+/**
+ * Pick the script kind from the file extension so plain .ts files are not parsed as JSX
+ */
+function getScriptKind(fileName?: string): ts.ScriptKind {
+  if (!fileName || /\.tsx$/i.test(fileName)) {
+    return ts.ScriptKind.TSX
+  }
+  if (/\.[cm]?ts$/i.test(fileName)) {
+    return ts.ScriptKind.TS
+  }
+  if (/\.jsx$/i.test(fileName)) {
+    return ts.ScriptKind.JSX
+  }
+  // JS files are parsed with JSX enabled
+  return ts.ScriptKind.JS
+}
+
+/**
+ * Parse TS/JS source text into a syntax tree with parent pointers set
+ */
+export function parseSourceFile(text: string, fileName?: string): ts.SourceFile {
+  return ts.createSourceFile(
+    fileName ?? 'component.tsx',
+    text,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(fileName)
+  )
+}
 
-  // Pattern 3: export const IconName = forwardRef<...>((props, ref) => { return <Icon>...</Icon> })
-  forwardRef: /export\s+const\s+(\w+)\s*=\s*forwardRef[^(]*\(\s*\([^)]*\)\s*=>\s*(?:\{[\s\S]*?return\s*)?\(\s*(<(?:svg|Svg|Icon)\b[\s\S]*?<\/(?:svg|Svg|Icon)>)\s*\)/g,
+/**
+ * Update a syntax tree to new text, reparsing only the changed region.
+ * The old tree must not be used afterwards.
+ */
+export function updateSourceFile(sourceFile: ts.SourceFile, text: string): ts.SourceFile {
+  const oldText = sourceFile.text
+  if (oldText === text) {
+    return sourceFile
+  }
+
+  // The changed region lies between the common prefix and the common suffix
+  const maxLength = Math.min(oldText.length, text.length)
+  let start = 0
+  while (start < maxLength && oldText.charCodeAt(start) === text.charCodeAt(start)) {
+    start++
+  }
+  let suffix = 0
+  while (
+    suffix < maxLength - start &&
+    oldText.charCodeAt(oldText.length - 1 - suffix) === text.charCodeAt(text.length - 1 - suffix)
+  ) {
+    suffix++
+  }
 
-  // Pattern 4: const IconName = memo(() => <svg>...</svg>)
-  memo: /(?:export\s+)?const\s+(\w+)\s*=\s*memo\s*\(\s*\([^)]*\)\s*=>\s*(?:\{[\s\S]*?return\s*)?\(\s*(<(?:svg|Svg|Icon)\b[\s\S]*?<\/(?:svg|Svg|Icon)>)\s*\)/g,
+  const span = ts.createTextSpan(start, oldText.length - suffix - start)
+  return ts.updateSourceFile(
+    sourceFile,
+    text,
+    ts.createTextChangeRange(span, text.length - suffix - start)
+  )
 }
 
 /**
- * Extract viewBox, width, and height from SVG/Icon element
+ * Strip parentheses, type assertions and non-null assertions around an expression
  */
-function extractSvgAttributes(jsx: string): { viewBox?: string; width?: number; height?: number } {
-  const result: { viewBox?: string; width?: number; height?: number } = {}
+function unwrapExpression(expression: ts.Expression): ts.Expression {
+  let current = expression
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isSatisfiesExpression(current) ||
+    ts.isNonNullExpression(current) ||
+    ts.isTypeAssertionExpression(current)
+  ) {
+    current = current.expression
+  }
+  return current
+}
 
-  const viewBoxMatch = jsx.match(/viewBox=["']([^"']+)["']/)
-  if (viewBoxMatch) {
-    result.viewBox = viewBoxMatch[1]
+/**
+ * Get the called name of a call expression: `memo` for both memo(...) and React.memo(...)
+ */
+function getCalleeName(expression: ts.LeftHandSideExpression): string | undefined {
+  if (ts.isIdentifier(expression)) {
+    return expression.text
+  }
+  if (ts.isPropertyAccessExpression(expression)) {
+    return expression.name.text
   }
+  return undefined
+}
 
-  const widthMatch = jsx.match(/width=\{?(\d+)\}?/)
-  if (widthMatch) {
-    result.width = parseInt(widthMatch[1], 10)
+/**
+ * Resolve the render function of a component initializer, looking through
+ * forwardRef/memo wrappers
+ */
+function getComponentFunction(
+  expression: ts.Expression
+): ts.ArrowFunction | ts.FunctionExpression | undefined {
+  const node = unwrapExpression(expression)
+
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+    return node
+  }
+
+  if (ts.isCallExpression(node)) {
+    const calleeName = getCalleeName(node.expression)
+    if (calleeName && COMPONENT_WRAPPERS.has(calleeName)) {
+      for (const arg of node.arguments) {
+        const fn = getComponentFunction(arg)
+        if (fn) {
+          return fn
+        }
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Find the icon markup of a returned expression: an <svg>, <Svg>, <Icon> or styled svg
+ * element, or a createElement('svg', ...) / h('svg', ...) call
+ */
+function asSvgSource(
+  expression: ts.Expression,
+  sourceFile: ts.SourceFile,
+  styledRoots: Map<string, SvgAttributes>
+): SvgSource | undefined {
+  const node = unwrapExpression(expression)
+
+  if (ts.isJsxElement(node)) {
+    return getJsxSvgSource(node, sourceFile, styledRoots)
+  }
+
+  if (ts.isCallExpression(node)) {
+    const calleeName = getCalleeName(node.expression)
+    const [type, props] = node.arguments
+    if (
+      calleeName &&
+      CREATE_ELEMENT_FUNCTIONS.has(calleeName) &&
+      type &&
+      ts.isStringLiteral(type) &&
+      type.text === 'svg'
+    ) {
+      return {
+        jsx: createElementToJsx(node, sourceFile),
+        node,
+        anchor: node.expression,
+        attrs: props && ts.isObjectLiteralExpression(props) ? getObjectLiteralAttributes(props) : {},
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Find the icon markup returned by a component function.
+ * Nested functions (callbacks, helpers) are not searched.
+ */
+function findReturnedSvg(
+  fn: ts.FunctionLikeDeclaration,
+  sourceFile: ts.SourceFile,
+  styledRoots: Map<string, SvgAttributes>
+): SvgSource | undefined {
+  const body = fn.body
+  if (!body) {
+    return undefined
   }
 
-  const heightMatch = jsx.match(/height=\{?(\d+)\}?/)
-  if (heightMatch) {
-    result.height = parseInt(heightMatch[1], 10)
+  if (!ts.isBlock(body)) {
+    return asSvgSource(body, sourceFile, styledRoots)
+  }
+
+  let found: SvgSource | undefined
+  const visit = (node: ts.Node): void => {
+    if (found || ts.isFunctionLike(node) || ts.isClassLike(node)) {
+      return
+    }
+    if (ts.isReturnStatement(node) && node.expression) {
+      found = asSvgSource(node.expression, sourceFile, styledRoots)
+      return
+    }
+    ts.forEachChild(node, visit)
+  }
+  ts.forEachChild(body, visit)
+
+  return found
+}
+
+/**
+ * Read the literal value of an attribute: attr="value", attr={16} or attr={'value'}
+ */
+function getAttributeLiteral(attr: ts.JsxAttribute): string | undefined {
+  if (!attr.initializer) {
+    return undefined
+  }
+  if (ts.isStringLiteral(attr.initializer)) {
+    return attr.initializer.text
+  }
+  if (ts.isJsxExpression(attr.initializer) && attr.initializer.expression) {
+    const expression = unwrapExpression(attr.initializer.expression)
+    if (
+      ts.isNumericLiteral(expression) ||
+      ts.isStringLiteral(expression) ||
+      ts.isNoSubstitutionTemplateLiteral(expression)
+    ) {
+      return expression.text
+    }
+  }
+  return undefined
+}
+
+/**
+ * Read a literal attribute value from an opening element
+ */
+function getLiteralAttribute(
+  element: ts.JsxOpeningElement,
+  name: string,
+  sourceFile: ts.SourceFile
+): string | undefined {
+  for (const attr of element.attributes.properties) {
+    if (ts.isJsxAttribute(attr) && attr.name.getText(sourceFile) === name) {
+      return getAttributeLiteral(attr)
+    }
+  }
+  return undefined
+}
+
+/**
+ * Parse a numeric size attribute such as 16, "16" or "16px"
+ */
+function parseSize(value: string | undefined): number | undefined {
+  if (value && /^\d+(?:\.\d+)?(?:px)?$/.test(value.trim())) {
+    return parseFloat(value)
+  }
+  return undefined
+}
+
+/**
+ * Extract viewBox, width, and height from the root SVG/Icon element.
+ * When an <Icon>/<Svg> wraps an inner <svg>, missing values fall back to the inner element.
+ */
+function extractSvgAttributes(element: ts.JsxElement, sourceFile: ts.SourceFile): SvgAttributes {
+  const openingElements = [element.openingElement]
+  for (const child of element.children) {
+    if (ts.isJsxElement(child) && child.openingElement.tagName.getText(sourceFile) === 'svg') {
+      openingElements.push(child.openingElement)
+      break
+    }
+  }
+
+  const read = (name: string): string | undefined => {
+    for (const opening of openingElements) {
+      const value = getLiteralAttribute(opening, name, sourceFile)
+      if (value !== undefined) {
+        return value
+      }
+    }
+    return undefined
+  }
+
+  const result: SvgAttributes = {}
+
+  const viewBox = read('viewBox')
+  if (viewBox) {
+    result.viewBox = viewBox
+  }
+
+  const width = parseSize(read('width'))
+  if (width !== undefined) {
+    result.width = width
+  }
+
+  const height = parseSize(read('height'))
+  if (height !== undefined) {
+    result.height = height
   }
 
   return result
 }
 
 /**
- * Find line number for a match position in the text
+ * Get the icon markup of a JSX element with an <svg>, <Svg>, <Icon> or styled svg root.
+ * Styled roots are renamed to <svg> and get the viewBox given to .attrs() if they have none.
  */
-function getLineNumber(text: string, position: number): number {
-  const lines = text.substring(0, position).split('\n')
-  return lines.length - 1
+function getJsxSvgSource(
+  element: ts.JsxElement,
+  sourceFile: ts.SourceFile,
+  styledRoots: Map<string, SvgAttributes>
+): SvgSource | undefined {
+  const tagName = element.openingElement.tagName.getText(sourceFile)
+  // A local styled component takes precedence, e.g. const Svg = styled.svg`...`
+  const styledAttrs = styledRoots.get(tagName)
+  if (!SVG_ROOT_TAGS.has(tagName) && !styledAttrs) {
+    return undefined
+  }
+
+  let jsx = element.getText(sourceFile)
+  const attrs = extractSvgAttributes(element, sourceFile)
+
+  if (styledAttrs) {
+    const closingStart = element.closingElement.getStart(sourceFile) - element.getStart(sourceFile)
+    const viewBox = !attrs.viewBox && styledAttrs.viewBox ? ` viewBox="${styledAttrs.viewBox}"` : ''
+    jsx = `<svg${viewBox}${jsx.slice(1 + tagName.length, closingStart)}</svg>`
+  }
+
+  return {
+    jsx,
+    node: element,
+    anchor: element.openingElement.tagName,
+    attrs: { ...styledAttrs, ...attrs },
+  }
+}
+
+/**
+ * Get the name of an object literal property, for identifier and string keys
+ */
+function getPropertyName(name: ts.PropertyName): string | undefined {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name)) {
+    return name.text
+  }
+  return undefined
+}
+
+/**
+ * Read viewBox, width and height from an object literal such as createElement props
+ * or the argument of styled.svg.attrs()
+ */
+function getObjectLiteralAttributes(object: ts.ObjectLiteralExpression): SvgAttributes {
+  const read = (name: string): string | undefined => {
+    for (const property of object.properties) {
+      if (ts.isPropertyAssignment(property) && getPropertyName(property.name) === name) {
+        const value = unwrapExpression(property.initializer)
+        if (ts.isStringLiteral(value) || ts.isNumericLiteral(value)) {
+          return value.text
+        }
+      }
+    }
+    return undefined
+  }
+
+  const result: SvgAttributes = {}
+  const viewBox = read('viewBox')
+  if (viewBox) {
+    result.viewBox = viewBox
+  }
+  const width = parseSize(read('width'))
+  if (width !== undefined) {
+    result.width = width
+  }
+  const height = parseSize(read('height'))
+  if (height !== undefined) {
+    result.height = height
+  }
+  return result
 }
 
 /**
- * Find end line number by counting newlines in the matched content
+ * Convert a createElement/h call tree to equivalent JSX markup.
+ * Non-literal props become JSX expressions, so the conversion reports them as dropped.
  */
-function getEndLineNumber(text: string, startPosition: number, matchLength: number): number {
-  const startLine = getLineNumber(text, startPosition)
-  const matchedText = text.substring(startPosition, startPosition + matchLength)
-  const newlines = (matchedText.match(/\n/g) || []).length
-  return startLine + newlines
+function createElementToJsx(call: ts.CallExpression, sourceFile: ts.SourceFile): string {
+  const [type, props, ...children] = call.arguments
+
+  const childToJsx = (child: ts.Expression): string => {
+    const node = unwrapExpression(child)
+    if (ts.isCallExpression(node) && CREATE_ELEMENT_FUNCTIONS.has(getCalleeName(node.expression) ?? '')) {
+      return createElementToJsx(node, sourceFile)
+    }
+    if (ts.isArrayLiteralExpression(node)) {
+      return node.elements.map(childToJsx).join('')
+    }
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      return node.text
+    }
+    if (node.kind === ts.SyntaxKind.NullKeyword) {
+      return ''
+    }
+    return `{${node.getText(sourceFile)}}`
+  }
+
+  const content = children.map(childToJsx).join('')
+
+  // Fragments and components can't be rendered, so only their children are kept
+  if (!type || !ts.isStringLiteral(type)) {
+    return content
+  }
+
+  const attrs: string[] = []
+  if (props && ts.isObjectLiteralExpression(props)) {
+    for (const property of props.properties) {
+      if (ts.isSpreadAssignment(property)) {
+        attrs.push(`{...${property.expression.getText(sourceFile)}}`)
+      } else if (ts.isShorthandPropertyAssignment(property)) {
+        attrs.push(`${property.name.text}={${property.name.text}}`)
+      } else if (ts.isPropertyAssignment(property)) {
+        const name = getPropertyName(property.name)
+        if (!name || name === 'key' || name === 'children') {
+          continue
+        }
+        const value = unwrapExpression(property.initializer)
+        if (ts.isStringLiteral(value) || ts.isNoSubstitutionTemplateLiteral(value)) {
+          attrs.push(`${name}="${value.text}"`)
+        } else if (ts.isObjectLiteralExpression(value) && name === 'style') {
+          attrs.push(`style={{ ${value.properties.map((p) => p.getText(sourceFile)).join(', ')} }}`)
+        } else {
+          attrs.push(`${name}={${value.getText(sourceFile)}}`)
+        }
+      }
+    }
+  }
+
+  const open = `<${type.text}${attrs.map((attr) => ` ${attr}`).join('')}`
+  return content ? `${open}>${content}</${type.text}>` : `${open} />`
 }
 
 /**
- * Parse document text and extract all SVG components
+ * Get the icon markup of an icon factory call. createSvgIcon children are wrapped in
+ * an <svg> with MUI's default viewBox.
+ */
+function getFactorySvgSource(call: ts.CallExpression, sourceFile: ts.SourceFile): SvgSource | undefined {
+  const [children] = call.arguments
+  if (!children) {
+    return undefined
+  }
+
+  const node = unwrapExpression(children)
+  let content: string
+  if (ts.isJsxFragment(node)) {
+    content = node.children.map((child) => child.getText(sourceFile)).join('')
+  } else if (ts.isArrayLiteralExpression(node)) {
+    content = node.elements.map((element) => element.getText(sourceFile)).join('')
+  } else if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) {
+    content = node.getText(sourceFile)
+  } else {
+    return undefined
+  }
+
+  // SvgIcon fills its children with the text color
+  return {
+    jsx: `<svg viewBox="${MUI_VIEW_BOX}" fill="currentColor">${content}</svg>`,
+    node,
+    anchor: call.expression,
+    attrs: { viewBox: MUI_VIEW_BOX },
+  }
+}
+
+/**
+ * Get the icon markup of an icon map entry: icon markup, or a bare path string drawn
+ * in `pathViewBox`
+ */
+function getValueSvgSource(
+  value: ts.Expression,
+  sourceFile: ts.SourceFile,
+  styledRoots: Map<string, SvgAttributes>,
+  pathViewBox: string
+): SvgSource | undefined {
+  const node = unwrapExpression(value)
+
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    if (!PATH_DATA_PATTERN.test(node.text) || !/[LlHhVvCcSsQqTtAaZz]/.test(node.text)) {
+      return undefined
+    }
+    return {
+      jsx: `<svg viewBox="${pathViewBox}" fill="currentColor"><path d="${node.text.trim()}" /></svg>`,
+      node,
+      anchor: node,
+      attrs: { viewBox: pathViewBox },
+    }
+  }
+
+  return asSvgSource(node, sourceFile, styledRoots)
+}
+
+/**
+ * Get the .attrs() defaults if the expression creates a styled svg:
+ * styled.svg`...`, styled('svg')`...`, styled.svg({...}) or styled.svg.attrs({...})`...`
+ */
+function getStyledSvgAttributes(expression: ts.Expression): SvgAttributes | undefined {
+  const node = unwrapExpression(expression)
+
+  if (ts.isPropertyAccessExpression(node)) {
+    const isStyledSvg =
+      ts.isIdentifier(node.expression) && node.expression.text === 'styled' && node.name.text === 'svg'
+    return isStyledSvg ? {} : undefined
+  }
+
+  if (ts.isTaggedTemplateExpression(node)) {
+    return getStyledSvgAttributes(node.tag)
+  }
+
+  if (ts.isCallExpression(node)) {
+    const [arg] = node.arguments
+    if (ts.isIdentifier(node.expression) && node.expression.text === 'styled') {
+      return arg && ts.isStringLiteral(arg) && arg.text === 'svg' ? {} : undefined
+    }
+    if (ts.isPropertyAccessExpression(node.expression) && node.expression.name.text === 'attrs') {
+      const base = getStyledSvgAttributes(node.expression.expression)
+      if (!base) {
+        return undefined
+      }
+      return { ...base, ...(arg && ts.isObjectLiteralExpression(arg) ? getObjectLiteralAttributes(arg) : {}) }
+    }
+    return getStyledSvgAttributes(node.expression)
+  }
+
+  return undefined
+}
+
+/**
+ * Collect top-level styled svg components, which can be the root element of an icon
+ */
+function collectStyledSvgRoots(sourceFile: ts.SourceFile): Map<string, SvgAttributes> {
+  const roots: Map<string, SvgAttributes> = new Map()
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) {
+      continue
+    }
+    for (const declaration of statement.declarationList.declarations) {
+      if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+        const attrs = getStyledSvgAttributes(declaration.initializer)
+        if (attrs) {
+          roots.set(declaration.name.text, attrs)
+        }
+      }
+    }
+  }
+  return roots
+}
+
+/**
+ * Collect problems in an icon: conversion issues reported by jsxToSvg plus
+ * hard-coded colors and duplicate ids found in the JSX
+ */
+function collectSvgIssues(
+  source: SvgSource,
+  sourceFile: ts.SourceFile,
+  conversionIssues: SvgConversionIssue[]
+): SvgIssue[] {
+  const issues: SvgIssue[] = []
+
+  const addIssue = (
+    rule: SvgIssueRule,
+    message: string,
+    node: ts.Node,
+    attribute?: { attribute: string; value: string }
+  ) => {
+    const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile))
+    const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd())
+    issues.push({
+      rule,
+      message,
+      startLine: start.line,
+      startCharacter: start.character,
+      endLine: end.line,
+      endCharacter: end.character,
+      ...attribute,
+    })
+  }
+
+  const attributes: ts.JsxAttribute[] = []
+  const visit = (node: ts.Node): void => {
+    if (ts.isJsxAttribute(node)) {
+      attributes.push(node)
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(source.node)
+
+  const reportedExpressions = new Set<ts.JsxAttribute>()
+  for (const issue of conversionIssues) {
+    if (issue.kind === 'missingViewBox') {
+      addIssue(
+        'missingViewBox',
+        'Icon has no viewBox, so the preview guesses one from path coordinates',
+        source.anchor
+      )
+    } else {
+      // Report on the attribute whose expression was dropped, or the root tag if not found
+      const attr = attributes.find(
+        (a) =>
+          !reportedExpressions.has(a) &&
+          a.initializer !== undefined &&
+          ts.isJsxExpression(a.initializer) &&
+          a.initializer.expression?.getText(sourceFile).trim() === issue.expression
+      )
+      if (attr) {
+        reportedExpressions.add(attr)
+      }
+      addIssue(
+        'droppedExpression',
+        `JSX expression {${issue.expression}} cannot be previewed and was dropped, so the preview may be inaccurate`,
+        attr ?? source.anchor
+      )
+    }
+  }
+
+  const seenIds = new Set<string>()
+  for (const attr of attributes) {
+    const name = attr.name.getText(sourceFile)
+    const value = getAttributeLiteral(attr)
+    if (value === undefined) {
+      continue
+    }
+
+    if ((name === 'fill' || name === 'stroke') && !isThemeablePaint(value)) {
+      addIssue(
+        'hardcodedColor',
+        `Hard-coded ${name} "${value}", use currentColor so the icon follows the text color`,
+        attr,
+        { attribute: name, value }
+      )
+    } else if (name === 'id') {
+      if (seenIds.has(value)) {
+        addIssue('duplicateId', `Duplicate id "${value}" in this icon`, attr)
+      }
+      seenIds.add(value)
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Name used for anonymous default exports: derived from the file name when known
+ */
+function getDefaultExportName(fileName?: string): string {
+  if (!fileName) {
+    return 'default'
+  }
+  return fileName.replace(/\.[^.]+$/, '').replace(/[^a-zA-Z0-9]/g, '_')
+}
+
+/**
+ * A component declaration found in the source, before SVG conversion
+ */
+interface ComponentCandidate {
+  name: string
+  /** Node whose range determines the component's start and end lines */
+  declaration: ts.Node
+  /** Name identifier, or the declaration if the component is anonymous */
+  nameNode: ts.Node
+  /** Render function of function components */
+  fn?: ts.FunctionLikeDeclaration
+  /** Icon factory call such as createSvgIcon(...) */
+  factory?: ts.CallExpression
+  /** Icon map entry: icon markup or a bare path string */
+  value?: ts.Expression
+  /** Name including the map, used when the key is taken, e.g. `paths.add` */
+  qualifiedName?: string
+  isDefaultExport?: boolean
+}
+
+/**
+ * Get the call if the expression calls an icon factory such as createSvgIcon
+ */
+function getIconFactoryCall(expression: ts.Expression): ts.CallExpression | undefined {
+  const node = unwrapExpression(expression)
+  if (ts.isCallExpression(node) && ICON_FACTORIES.has(getCalleeName(node.expression) ?? '')) {
+    return node
+  }
+  return undefined
+}
+
+/**
+ * Collect the entries of an icon map or array, named by their key path:
+ * `add` in { add: <svg /> }, `nav.back` in { nav: { back: 'M...' } }, `icons[0]` in [<svg />]
+ */
+function collectMapCandidates(
+  literal: ts.ObjectLiteralExpression | ts.ArrayLiteralExpression,
+  mapName: string,
+  prefix: string,
+  candidates: ComponentCandidate[]
+): void {
+  const entries: { name: string; node: ts.Node; nameNode: ts.Node; value: ts.Expression }[] = []
+
+  if (ts.isObjectLiteralExpression(literal)) {
+    for (const property of literal.properties) {
+      if (!ts.isPropertyAssignment(property)) {
+        continue
+      }
+      const key =
+        getPropertyName(property.name) ??
+        (ts.isNumericLiteral(property.name) ? property.name.text : undefined)
+      if (key !== undefined) {
+        entries.push({
+          name: prefix ? `${prefix}.${key}` : key,
+          node: property,
+          nameNode: property.name,
+          value: property.initializer,
+        })
+      }
+    }
+  } else {
+    literal.elements.forEach((element, index) => {
+      entries.push({ name: `${prefix}[${index}]`, node: element, nameNode: element, value: element })
+    })
+  }
+
+  for (const { name, node, nameNode, value } of entries) {
+    const unwrapped = unwrapExpression(value)
+    if (ts.isObjectLiteralExpression(unwrapped) || ts.isArrayLiteralExpression(unwrapped)) {
+      collectMapCandidates(unwrapped, mapName, name, candidates)
+      continue
+    }
+
+    const fn = getComponentFunction(unwrapped)
+    const factory = fn ? undefined : getIconFactoryCall(unwrapped)
+    candidates.push({
+      name,
+      declaration: node,
+      nameNode,
+      fn,
+      factory,
+      value: fn || factory ? undefined : unwrapped,
+      qualifiedName: name.startsWith(`${mapName}[`) ? undefined : `${mapName}.${name}`,
+    })
+  }
+}
+
+/**
+ * Collect all top-level component declarations:
+ * function declarations, const initializers (arrow/function expressions, optionally
+ * wrapped in forwardRef/memo, or icon factory calls), `export default` expressions and
+ * the entries of icon maps and arrays
+ */
+function collectCandidates(sourceFile: ts.SourceFile, fileName?: string): ComponentCandidate[] {
+  const candidates: ComponentCandidate[] = []
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement)) {
+      candidates.push({
+        name: statement.name?.text ?? getDefaultExportName(fileName),
+        declaration: statement,
+        nameNode: statement.name ?? statement,
+        fn: statement,
+        isDefaultExport: statement.modifiers?.some(
+          (modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword
+        ),
+      })
+    } else if (ts.isVariableStatement(statement)) {
+      const { declarations } = statement.declarationList
+      for (const declaration of declarations) {
+        if (!ts.isIdentifier(declaration.name) || !declaration.initializer) {
+          continue
+        }
+        const initializer = unwrapExpression(declaration.initializer)
+        if (ts.isObjectLiteralExpression(initializer) || ts.isArrayLiteralExpression(initializer)) {
+          const mapName = declaration.name.text
+          collectMapCandidates(
+            initializer,
+            mapName,
+            ts.isArrayLiteralExpression(initializer) ? mapName : '',
+            candidates
+          )
+          continue
+        }
+
+        const fn = getComponentFunction(declaration.initializer)
+        const factory = fn ? undefined : getIconFactoryCall(declaration.initializer)
+        if (fn || factory) {
+          candidates.push({
+            name: declaration.name.text,
+            // A single declaration spans the whole statement, including `export const`
+            declaration: declarations.length === 1 ? statement : declaration,
+            nameNode: declaration.name,
+            fn,
+            factory,
+          })
+        }
+      }
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const expression = unwrapExpression(statement.expression)
+      if (ts.isObjectLiteralExpression(expression) || ts.isArrayLiteralExpression(expression)) {
+        const mapName = getDefaultExportName(fileName)
+        collectMapCandidates(
+          expression,
+          mapName,
+          ts.isArrayLiteralExpression(expression) ? mapName : '',
+          candidates
+        )
+        continue
+      }
+
+      const fn = getComponentFunction(statement.expression)
+      const factory = fn ? undefined : getIconFactoryCall(statement.expression)
+      if (fn || factory) {
+        candidates.push({
+          name: fn?.name?.text ?? getDefaultExportName(fileName),
+          declaration: statement,
+          nameNode: fn?.name ?? statement,
+          fn,
+          factory,
+          isDefaultExport: true,
+        })
+      }
+    }
+  }
+
+  return candidates
+}
+
+/**
+ * Get the name of the component enclosing a node: the nearest PascalCase function,
+ * class or variable declaration, or the file name for top-level JSX
+ */
+function getEnclosingComponentName(node: ts.Node, fileName?: string): string {
+  for (let current = node.parent; current && !ts.isSourceFile(current); current = current.parent) {
+    if (
+      (ts.isFunctionDeclaration(current) ||
+        ts.isClassDeclaration(current) ||
+        ts.isVariableDeclaration(current)) &&
+      current.name &&
+      ts.isIdentifier(current.name) &&
+      /^[A-Z]/.test(current.name.text)
+    ) {
+      return current.name.text
+    }
+  }
+  return getDefaultExportName(fileName)
+}
+
+/**
+ * Collect the <svg> elements embedded in the JSX of larger components, such as the icon of
+ * a button or an empty-state illustration. Each is named after its enclosing component plus
+ * an index: `SubmitButton[0]`, `SubmitButton[1]`, ... Elements inside `covered` nodes are
+ * already previewed as icons, and nested <svg> elements belong to their outermost <svg>.
+ */
+function collectEmbeddedSvgs(
+  sourceFile: ts.SourceFile,
+  styledRoots: Map<string, SvgAttributes>,
+  covered: Set<ts.Node>,
+  fileName?: string
+): { name: string; source: SvgSource; elementCount: number }[] {
+  const embedded: { name: string; source: SvgSource; elementCount: number }[] = []
+  const indexes: Map<string, number> = new Map()
+
+  const countElements = (node: ts.Node): number => {
+    let count = 0
+    ts.forEachChild(node, (child) => {
+      if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)) {
+        count++
+      }
+      count += countElements(child)
+    })
+    return count
+  }
+
+  const visit = (node: ts.Node): void => {
+    if (covered.has(node)) {
+      return
+    }
+    if (ts.isJsxElement(node)) {
+      const tagName = node.openingElement.tagName.getText(sourceFile)
+      const source =
+        tagName === 'svg' || styledRoots.has(tagName)
+          ? getJsxSvgSource(node, sourceFile, styledRoots)
+          : undefined
+      if (source) {
+        const componentName = getEnclosingComponentName(node, fileName)
+        const index = indexes.get(componentName) ?? 0
+        indexes.set(componentName, index + 1)
+        embedded.push({
+          name: `${componentName}[${index}]`,
+          source,
+          elementCount: countElements(node),
+        })
+        return
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+
+  return embedded
+}
+
+/**
+ * Get the displayed size of an icon: the larger of its width and height, or of its
+ * viewBox dimensions when it has no size
+ */
+function getSvgSize(attrs: SvgAttributes): number | undefined {
+  if (attrs.width !== undefined || attrs.height !== undefined) {
+    return Math.max(attrs.width ?? 0, attrs.height ?? 0)
+  }
+  const [, , width, height] = (attrs.viewBox ?? '').trim().split(/[\s,]+/).map(Number)
+  return width > 0 && height > 0 ? Math.max(width, height) : undefined
+}
+
+/**
+ * Find the render function of a component by name, e.g. to edit its parameters
+ */
+export function findComponentFunction(
+  sourceFile: ts.SourceFile,
+  componentName: string,
+  fileName?: string
+): ts.FunctionLikeDeclaration | undefined {
+  return collectCandidates(sourceFile, fileName).find((c) => c.name === componentName)?.fn
+}
+
+/**
+ * Parse document text and extract all SVG components.
+ * `sourceFile` is an already parsed tree of the text. `conversions` holds the conversions
+ * of a previous parse, which are reused for unchanged elements; it is replaced with the
+ * conversions of this parse.
  */
 export function parseSvgComponents(
   text: string,
-  options: { defaultFillColor?: string } = {}
+  options: {
+    defaultFillColor?: string
+    fileName?: string
+    /** viewBox that bare path strings in icon maps are drawn in */
+    pathViewBox?: string
+    sourceFile?: ts.SourceFile
+    conversions?: Map<string, SvgConversion>
+    /** Also preview <svg> elements embedded in other components, when given */
+    embeddedSvg?: { minSize: number; minElements: number }
+  } = {}
 ): ParsedSvgComponent[] {
   const components: ParsedSvgComponent[] = []
   const seenNames = new Set<string>()
+  const usedConversions: Map<string, SvgConversion> = new Map()
 
-  // Try each pattern
-  for (const [, pattern] of Object.entries(PATTERNS)) {
-    // Reset regex lastIndex
-    pattern.lastIndex = 0
-
-    let match: RegExpExecArray | null
-    while ((match = pattern.exec(text)) !== null) {
-      const [fullMatch, name, jsx] = match
-      
-      // Skip if we've already found this component
-      if (seenNames.has(name)) {
-        continue
-      }
+  const sourceFile = options.sourceFile ?? parseSourceFile(text, options.fileName)
+
+  const styledRoots = collectStyledSvgRoots(sourceFile)
+
+  const pathViewBox = options.pathViewBox || DEFAULT_PATH_VIEW_BOX
+
+  // Nodes already previewed as icons, not searched for embedded <svg> elements
+  const coveredNodes = new Set<ts.Node>()
+
+  const addComponent = (
+    name: string,
+    source: SvgSource,
+    declaration: ts.Node,
+    nameNode: ts.Node,
+    flags: { isDefaultExport?: boolean; isEmbedded?: boolean }
+  ) => {
+    try {
+      const { jsx, attrs } = source
 
-      try {
-        const attrs = extractSvgAttributes(jsx)
-        const svg = jsxToSvg(jsx, {
+      const conversionKey = `${options.defaultFillColor ?? ''}\n${jsx}`
+      let conversion = options.conversions?.get(conversionKey)
+      if (!conversion) {
+        const conversionIssues: SvgConversionIssue[] = []
+        const converted = jsxToSvg(jsx, {
           defaultFillColor: options.defaultFillColor,
           width: attrs.width,
           height: attrs.height,
           viewBox: attrs.viewBox,
+          issues: conversionIssues,
         })
+        conversion = {
+          svg: inlineSpriteSymbols(converted, options.defaultFillColor),
+          issues: conversionIssues,
+        }
+      }
+      usedConversions.set(conversionKey, conversion)
 
-        const startLine = getLineNumber(text, match.index)
-        const endLine = getEndLineNumber(text, match.index, fullMatch.length)
+      const { svg } = conversion
+      const issues = collectSvgIssues(source, sourceFile, conversion.issues)
 
-        components.push({
-          name,
-          startLine,
-          endLine,
-          rawJsx: jsx,
-          svg,
-          ...attrs,
-        })
+      const startLine = sourceFile.getLineAndCharacterOfPosition(declaration.getStart(sourceFile)).line
+      const endLine = sourceFile.getLineAndCharacterOfPosition(declaration.getEnd()).line
+      const nameStart = sourceFile.getLineAndCharacterOfPosition(nameNode.getStart(sourceFile))
+      // Anonymous components mark only the start of the declaration
+      const nameLength = nameNode === declaration ? 0 : nameNode.getWidth(sourceFile)
+
+      components.push({
+        name,
+        startLine,
+        endLine,
+        nameLine: nameStart.line,
+        nameStartCharacter: nameStart.character,
+        nameEndCharacter: nameStart.character + nameLength,
+        rawJsx: jsx,
+        svg,
+        ...attrs,
+        ...(flags.isDefaultExport ? { isDefaultExport: true } : {}),
+        ...(flags.isEmbedded ? { isEmbedded: true } : {}),
+        ...(issues.length > 0 ? { issues } : {}),
+      })
+
+      seenNames.add(name)
+      coveredNodes.add(source.node)
+    } catch (error) {
+      // Skip components that fail to parse
+      console.error(`Failed to parse component ${name}:`, error)
+    }
+  }
+
+  for (const candidate of collectCandidates(sourceFile, options.fileName)) {
+    const { declaration, nameNode, fn, factory, value, isDefaultExport } = candidate
+
+    // Map entries whose key is taken are named after their map
+    const name =
+      seenNames.has(candidate.name) && candidate.qualifiedName ? candidate.qualifiedName : candidate.name
+
+    // Skip if we've already found this component
+    if (seenNames.has(name)) {
+      continue
+    }
 
-        seenNames.add(name)
-      } catch (error) {
-        // Skip components that fail to parse
-        console.error(`Failed to parse component ${name}:`, error)
+    let source: SvgSource | undefined
+    if (fn) {
+      source = findReturnedSvg(fn, sourceFile, styledRoots)
+    } else if (factory) {
+      source = getFactorySvgSource(factory, sourceFile)
+    } else if (value) {
+      source = getValueSvgSource(value, sourceFile, styledRoots, pathViewBox)
+    }
+    if (source) {
+      addComponent(name, source, declaration, nameNode, { isDefaultExport })
+    }
+  }
+
+  // Embedded <svg> elements are previewed at the line they open on, unless they are too small
+  if (options.embeddedSvg) {
+    const { minSize, minElements } = options.embeddedSvg
+    const embedded = collectEmbeddedSvgs(sourceFile, styledRoots, coveredNodes, options.fileName)
+    for (const { name, source, elementCount } of embedded) {
+      const size = getSvgSize(source.attrs)
+      if (seenNames.has(name) || elementCount < minElements || (size !== undefined && size < minSize)) {
+        continue
       }
+      addComponent(name, source, source.node, source.anchor, { isEmbedded: true })
     }
   }
 
   // Sort by start line
   components.sort((a, b) => a.startLine - b.startLine)
 
+  // Keep only the conversions of this parse
+  if (options.conversions) {
+    options.conversions.clear()
+    for (const [key, conversion] of usedConversions) {
+      options.conversions.set(key, conversion)
+    }
+  }
+
   return components
 }
 
+/**
+ * Convert a component to a standalone SVG document for saving to disk.
+ * Unlike the preview `svg`, currentColor is kept and no preview width and height are injected.
+ */
+export function componentToSvgDocument(component: ParsedSvgComponent): string {
+  if (component.isRawSvg) {
+    return component.rawJsx
+  }
+
+  return jsxToSvg(component.rawJsx, {
+    width: component.width,
+    height: component.height,
+    viewBox: component.viewBox,
+    forExport: true,
+  })
+}
+
 /**
  * Find the SVG component at a specific line
  */
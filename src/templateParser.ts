@@ -0,0 +1,380 @@
+/**
+ * Template Parser - Extract SVG icons from Vue, Svelte and Angular templates
+ *
+ * Template bindings are rewritten as JSX expressions so jsxToSvg resolves literal
+ * bindings and drops the rest, the same way it handles React components.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { ParsedSvgComponent, SvgIssue, SvgIssueRule } from './svgParser'
+import { jsxToSvg, isThemeablePaint, kebabToCamel, toPascalCase, createPositionResolver, SvgConversionIssue } from './utils'
+import { inlineSpriteSymbols } from './spriteSheet'
+
+/**
+ * Template syntaxes whose bindings are understood
+ */
+export type TemplateFramework = NonNullable<ParsedSvgComponent['framework']>
+
+/**
+ * A bound attribute of the template, as [start, end) offsets in the markup
+ */
+interface TemplateBinding {
+  expression: string
+  start: number
+  end: number
+}
+
+/**
+ * Check if an HTML file is an Angular component template: it is named `*.component.html`,
+ * or sits next to its component class, e.g. `icon.html` beside `icon.component.ts` or `icon.ts`
+ */
+function isAngularTemplate(filePath: string): boolean {
+  if (/\.component\.html?$/.test(filePath)) {
+    return true
+  }
+  const base = filePath.replace(/\.html?$/, '')
+  return (
+    path.isAbsolute(filePath) && [`${base}.component.ts`, `${base}.ts`].some((sibling) => fs.existsSync(sibling))
+  )
+}
+
+/**
+ * Get the template syntax of a document from its language or file path. Other HTML
+ * files are left alone so their `{{ }}` and `[attr]` text isn't read as Angular bindings.
+ */
+export function getTemplateFramework(filePath: string, languageId?: string): TemplateFramework | undefined {
+  if (languageId === 'vue' || filePath.endsWith('.vue')) {
+    return 'vue'
+  }
+  if (languageId === 'svelte' || filePath.endsWith('.svelte')) {
+    return 'svelte'
+  }
+  if (/\.html?$/.test(filePath) && isAngularTemplate(filePath)) {
+    return 'angular'
+  }
+  return undefined
+}
+
+/**
+ * Blank out a range of the text, keeping line breaks so offsets and lines don't move
+ */
+function blankRange(text: string, start: number, end: number): string {
+  return text.slice(0, start) + text.slice(start, end).replace(/[^\n]/g, ' ') + text.slice(end)
+}
+
+/**
+ * Get the part of a file that holds markup: the Vue <template> block, or a Svelte
+ * or Angular file without its <script> and <style> blocks
+ */
+function getTemplateRegion(text: string, framework: TemplateFramework): string {
+  if (framework === 'vue') {
+    const open = text.match(/<template\b[^>]*>/)
+    const close = text.lastIndexOf('</template>')
+    if (!open || open.index === undefined || close < open.index) {
+      return ''
+    }
+    const start = open.index + open[0].length
+    return blankRange(blankRange(text, close, text.length), 0, start)
+  }
+
+  let region = text
+  for (const match of text.matchAll(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/g)) {
+    region = blankRange(region, match.index as number, (match.index as number) + match[0].length)
+  }
+  return region
+}
+
+/**
+ * Find the outermost <svg> elements of the markup, as [start, end) offsets
+ */
+function findSvgBlocks(region: string): [number, number][] {
+  const blocks: [number, number][] = []
+  let depth = 0
+  let start = 0
+
+  for (const match of region.matchAll(/<svg\b[^>]*?(\/?)>|<\/svg\s*>/g)) {
+    const index = match.index as number
+    if (match[0].startsWith('</')) {
+      if (depth > 0 && --depth === 0) {
+        blocks.push([start, index + match[0].length])
+      }
+    } else if (depth === 0 && match[1]) {
+      // Self-closing <svg />
+      blocks.push([index, index + match[0].length])
+    } else if (!match[1]) {
+      if (depth++ === 0) {
+        start = index
+      }
+    }
+  }
+
+  return blocks
+}
+
+// A start tag, an {{ interpolation }} or a Svelte {expression} in text
+const TEMPLATE_TOKEN_PATTERN =
+  /<([a-zA-Z][^\s/>]*)((?:\s+(?:\{[^}]*\}|[^\s=/>{]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|\{[^}]*\}|[^\s>"'{]+))?))*)\s*(\/?)>|\{\{[\s\S]*?\}\}|\{[^}]*\}/g
+
+// One attribute of a start tag, including Svelte {shorthand} and {...spread} attributes
+const TEMPLATE_ATTRIBUTE_PATTERN = /\s+(\{[^}]*\}|[^\s=/>{]+)(?:\s*=\s*("[^"]*"|'[^']*'|\{[^}]*\}|[^\s>"'{]+))?/g
+
+// Svelte directives that don't set an attribute
+const SVELTE_DIRECTIVE_PATTERN = /^(?:on|bind|class|style|use|transition|in|out|animate|let):/
+
+/**
+ * Rewrite one template attribute as JSX: bindings become `name={expression}`, event
+ * handlers and directives are removed and static attributes are kept as they are
+ */
+function rewriteAttribute(name: string, value: string | undefined, framework: TemplateFramework): string {
+  const unquoted = value?.replace(/^(["'])([\s\S]*)\1$/, '$2') ?? ''
+  // Bound names are camelCased so jsxToSvg converts them back, e.g. strokeWidth -> stroke-width
+  const bind = (attr: string, expression: string) => ` ${kebabToCamel(attr)}={${expression.trim()}}`
+  const keep = () => (value === undefined ? ` ${name}` : ` ${name}=${value}`)
+
+  if (framework === 'vue') {
+    // :fill="color", v-bind:fill="color" and :fill.prop="color"
+    const binding = name.match(/^(?:v-bind)?:([\w-]+)(?:\.\w+)*$/)
+    if (binding) {
+      return bind(binding[1], unquoted)
+    }
+    // v-bind="attrs", v-if, v-for, v-on:click, @click, #slot
+    return /^(?:v-|@|#)/.test(name) ? '' : keep()
+  }
+
+  if (framework === 'svelte') {
+    // {fill} shorthand; {...$$restProps} spreads are removed
+    if (name.startsWith('{')) {
+      const shorthand = name.match(/^\{\s*(\w+)\s*\}$/)
+      return shorthand ? bind(shorthand[1], shorthand[1]) : ''
+    }
+    if (SVELTE_DIRECTIVE_PATTERN.test(name)) {
+      return ''
+    }
+    // fill={color} and fill="{color}"
+    const expression = unquoted.match(/^\{([^}]*)\}$/)
+    if (expression) {
+      return bind(name, expression[1])
+    }
+    // Text mixed with expressions, e.g. class="icon {size}", can't be resolved
+    return unquoted.includes('{') ? bind(name, unquoted.replace(/[{}]/g, '')) : keep()
+  }
+
+  // [attr.fill]="color" and [fill]="color"
+  const binding = name.match(/^\[(?:attr\.)?([\w-]+)\]$/)
+  if (binding) {
+    return bind(binding[1], unquoted)
+  }
+  // [class.active], [style.fill], [(ngModel)], (click), *ngIf and #ref
+  if (/^[[(*#]/.test(name)) {
+    return ''
+  }
+  // fill="{{ color }}"
+  const interpolation = unquoted.match(/^\{\{([\s\S]*)\}\}$/)
+  return interpolation ? bind(name, interpolation[1]) : keep()
+}
+
+/**
+ * Rewrite framework bindings as JSX attribute expressions: `:fill="color"`, `{fill}` and
+ * `[attr.fill]="color"` all become `fill={color}`. Event handlers, directives, text
+ * interpolations and control flow can't affect a static preview and are removed.
+ * Each bound attribute is added to `bindings` in markup order.
+ */
+function templateToJsx(markup: string, framework: TemplateFramework, bindings?: TemplateBinding[]): string {
+  return markup.replace(
+    TEMPLATE_TOKEN_PATTERN,
+    (token, tagName: string | undefined, attrs: string | undefined, selfClosing: string | undefined, offset: number) => {
+      if (tagName === undefined) {
+        // Single braces are plain text outside Svelte
+        return framework === 'svelte' || token.startsWith('{{') ? '' : token
+      }
+      const attrsStart = offset + 1 + tagName.length
+      const rewritten = (attrs ?? '').replace(
+        TEMPLATE_ATTRIBUTE_PATTERN,
+        (attr, name: string, value: string | undefined, attrOffset: number) => {
+          const jsx = rewriteAttribute(name, value, framework)
+          const expression = jsx.match(/=\{([\s\S]*)\}$/)
+          if (bindings && expression) {
+            const start = attrsStart + attrOffset + attr.length - attr.trimStart().length
+            bindings.push({ expression: expression[1], start, end: attrsStart + attrOffset + attr.length })
+          }
+          return jsx
+        }
+      )
+      return `<${tagName}${rewritten}${selfClosing ? ' /' : ''}>`
+    }
+  )
+}
+
+/**
+ * Read the static viewBox, width and height of the root <svg> tag
+ */
+function extractRootAttributes(markup: string): { viewBox?: string; width?: number; height?: number } {
+  const rootTag = (markup.match(/<svg\b[^>]*>/) as RegExpMatchArray)[0]
+  const read = (name: string) => rootTag.match(new RegExp(`\\s${name}=["']([^"']+)["']`))?.[1]
+  const attrs: { viewBox?: string; width?: number; height?: number } = {}
+
+  const viewBox = read('viewBox')
+  if (viewBox) {
+    attrs.viewBox = viewBox
+  }
+  for (const name of ['width', 'height'] as const) {
+    const size = parseFloat(read(name) ?? '')
+    if (!isNaN(size)) {
+      attrs[name] = size
+    }
+  }
+  return attrs
+}
+
+/**
+ * Collect the problems of one template icon. Static attributes are found in the original
+ * markup; dropped expressions are reported on the bound attribute they came from.
+ */
+function collectTemplateIssues(
+  markup: string,
+  offset: number,
+  resolve: ReturnType<typeof createPositionResolver>,
+  conversionIssues: SvgConversionIssue[],
+  bindings: TemplateBinding[]
+): SvgIssue[] {
+  const issues: SvgIssue[] = []
+
+  const addIssue = (
+    rule: SvgIssueRule,
+    message: string,
+    start: number,
+    end: number,
+    attribute?: { attribute: string; value: string }
+  ) => {
+    const startPosition = resolve(offset + start)
+    const endPosition = resolve(offset + end)
+    issues.push({
+      rule,
+      message,
+      startLine: startPosition.line,
+      startCharacter: startPosition.character,
+      endLine: endPosition.line,
+      endCharacter: endPosition.character,
+      ...attribute,
+    })
+  }
+
+  // The root tag name, e.g. `<svg`
+  const rootEnd = '<svg'.length
+  // Expressions are dropped in markup order, so each matches the next binding with its source
+  let nextBinding = 0
+
+  for (const issue of conversionIssues) {
+    if (issue.kind === 'missingViewBox') {
+      addIssue('missingViewBox', 'Icon has no viewBox, so the preview guesses one from path coordinates', 0, rootEnd)
+    } else {
+      // Report on the binding whose expression was dropped, or the root tag if not found
+      const expression = issue.expression ?? ''
+      const index = bindings.findIndex((binding, i) => i >= nextBinding && binding.expression === expression)
+      const binding = index === -1 ? undefined : bindings[index]
+      if (binding) {
+        nextBinding = index + 1
+      }
+      addIssue(
+        'droppedExpression',
+        `Template binding "${expression}" cannot be previewed and was dropped, so the preview may be inaccurate`,
+        binding?.start ?? 0,
+        binding?.end ?? rootEnd
+      )
+    }
+  }
+
+  // Only plain attributes: bound ones like :fill or [attr.fill] are preceded by other characters
+  const seenIds = new Set<string>()
+  for (const match of markup.matchAll(/(\s)(fill|stroke|id)=(["'])([^"'{}]*)\3/g)) {
+    const [, space, name, , value] = match
+    const start = (match.index as number) + space.length
+    const end = (match.index as number) + match[0].length
+
+    if (name === 'id') {
+      if (seenIds.has(value)) {
+        addIssue('duplicateId', `Duplicate id "${value}" in this icon`, start, end)
+      }
+      seenIds.add(value)
+    } else if (!isThemeablePaint(value)) {
+      addIssue(
+        'hardcodedColor',
+        `Hard-coded ${name} "${value}", use currentColor so the icon follows the text color`,
+        start,
+        end,
+        { attribute: name, value }
+      )
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Parse the <svg> icons of a Vue, Svelte or Angular template. Icons are named after the
+ * file; a template with several icons names them `Name[0]`, `Name[1]`, ...
+ */
+export function parseTemplateComponents(
+  text: string,
+  fileName: string,
+  framework: TemplateFramework,
+  options: { defaultFillColor?: string } = {}
+): ParsedSvgComponent[] {
+  const components: ParsedSvgComponent[] = []
+  const blocks = findSvgBlocks(getTemplateRegion(text, framework))
+  const resolve = createPositionResolver(text)
+  const baseName = toPascalCase(path.basename(fileName).replace(/(?:\.component)?\.[^.]+$/, ''))
+
+  blocks.forEach(([start, end], index) => {
+    const name = blocks.length === 1 ? baseName : `${baseName}[${index}]`
+    const markup = text.slice(start, end)
+
+    try {
+      const attrs = extractRootAttributes(markup)
+      const conversionIssues: SvgConversionIssue[] = []
+      const bindings: TemplateBinding[] = []
+      const converted = jsxToSvg(templateToJsx(markup, framework, bindings), {
+        defaultFillColor: options.defaultFillColor,
+        width: attrs.width,
+        height: attrs.height,
+        viewBox: attrs.viewBox,
+        issues: conversionIssues,
+      })
+      const svg = inlineSpriteSymbols(converted, options.defaultFillColor)
+      const issues = collectTemplateIssues(markup, start, resolve, conversionIssues, bindings)
+
+      const startPosition = resolve(start)
+      components.push({
+        name,
+        startLine: startPosition.line,
+        endLine: resolve(end).line,
+        nameLine: startPosition.line,
+        nameStartCharacter: startPosition.character,
+        nameEndCharacter: startPosition.character + '<svg'.length,
+        rawJsx: markup,
+        svg,
+        ...attrs,
+        framework,
+        ...(issues.length > 0 ? { issues } : {}),
+      })
+    } catch (error) {
+      console.error(`Failed to parse template icon ${name}:`, error)
+    }
+  })
+
+  return components
+}
+
+/**
+ * Convert a template icon to a standalone SVG document. Like componentToSvgDocument,
+ * currentColor is kept and no preview width and height are injected.
+ */
+export function templateToSvgDocument(component: ParsedSvgComponent, framework: TemplateFramework): string {
+  return jsxToSvg(templateToJsx(component.rawJsx, framework), {
+    width: component.width,
+    height: component.height,
+    viewBox: component.viewBox,
+    forExport: true,
+  })
+}
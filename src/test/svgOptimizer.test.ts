@@ -0,0 +1,99 @@
+/**
+ * SVG Optimizer tests - run with `npm test`
+ */
+
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { optimizeSvg, getSvgFingerprint } from '../svgOptimizer'
+
+const getPathData = (markup: string): string => (markup.match(/\sd="([^"]*)"/) as RegExpMatchArray)[1]
+
+test('optimizer keeps arc flags written without separators', () => {
+  const circle = '<svg viewBox="0 0 24 24"><path d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"/></svg>'
+  assert.equal(getPathData(optimizeSvg(circle).markup), 'M15 12a3 3 0 11-6 0 3 3 0 016 0z')
+
+  const arc = '<svg viewBox="0 0 24 24"><path d="M2.25 12a9.75 9.75 0 0019.5 0"/></svg>'
+  assert.equal(getPathData(optimizeSvg(arc).markup), 'M2.25 12a9.75 9.75 0 0019.5 0')
+})
+
+test('optimizer rounds arc coordinates but not flags', () => {
+  // Exported from a design tool with four decimal places
+  const circle =
+    '<svg width="24" height="24" viewBox="0 0 24 24" fill="none">' +
+    '<path d="M11.9999 21.5999a9.5999 9.5999 0 110-19.1998 9.5999 9.5999 0 010 19.1998z" stroke="#111827" stroke-width="1.5"/>' +
+    '</svg>'
+  assert.equal(getPathData(optimizeSvg(circle, { precision: 2 }).markup), 'M12 21.6a9.6 9.6 0 110-19.2 9.6 9.6 0 010 19.2z')
+})
+
+test('optimizer separates numbers that merge after rounding', () => {
+  // Bootstrap Icons "x", which leaves out the zero before decimal points
+  const x =
+    '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" viewBox="0 0 16 16">' +
+    '<path d="M4.646 4.646a.5.5 0 0 1 .708 0L8 7.293l2.646-2.647a.5.5 0 0 1 .708.708L8.707 8l2.647 2.646a.5.5 0 0 1-.708.708' +
+    'L8 8.707l-2.646 2.647a.5.5 0 0 1-.708-.708L7.293 8 4.646 5.354a.5.5 0 0 1 0-.708z"/>' +
+    '</svg>'
+  assert.equal(
+    getPathData(optimizeSvg(x, { precision: 0 }).markup),
+    'M5 5a1 1 0 0 1 1 0L8 7l3-3a1 1 0 0 1 1 1L9 8l3 3a1 1 0 0 1-1 1L8 9l-3 3a1 1 0 0 1-1-1L7 8 5 5a1 1 0 0 1 0-1z'
+  )
+})
+
+test('optimizer keeps defaults that a props spread may override', () => {
+  const chevron = [
+    '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" opacity="1" {...props}>',
+    '  {/* Chevron down */}',
+    '  <path strokeWidth="1" strokeLinecap="round" d="M6 9l6 6 6-6" />',
+    '</svg>',
+  ].join('\n')
+  assert.equal(
+    optimizeSvg(chevron, { jsx: true }).markup,
+    [
+      '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" opacity="1" {...props}>',
+      '  <path strokeWidth="1" strokeLinecap="round" d="M6 9l6 6 6-6" />',
+      '</svg>',
+    ].join('\n')
+  )
+})
+
+test('optimizer keeps blank lines in style elements', () => {
+  // Adobe Illustrator export
+  const icon = [
+    '<svg version="1.1" id="Layer_1" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" xml:space="preserve">',
+    '<style type="text/css">',
+    '  .st0{fill:none;stroke:#000000;stroke-width:2;}',
+    '',
+    '  .st1{fill:#FFFFFF;}',
+    '</style>',
+    '<!-- Generator: Adobe Illustrator 24.0.0, SVG Export Plug-In -->',
+    '<path class="st0" d="M6 9l6 6 6-6"/>',
+    '</svg>',
+  ].join('\n')
+  assert.equal(
+    optimizeSvg(icon).markup,
+    [
+      '<svg id="Layer_1" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">',
+      '<style type="text/css">',
+      '  .st0{fill:none;stroke:#000000;stroke-width:2;}',
+      '',
+      '  .st1{fill:#FFFFFF;}',
+      '</style>',
+      '<path class="st0" d="M6 9l6 6 6-6"/>',
+      '</svg>',
+    ].join('\n')
+  )
+})
+
+test('fingerprint reads compact arc flags as separate arguments', () => {
+  const compact = '<svg viewBox="0 0 24 24"><path d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"/></svg>'
+  const spaced = '<svg viewBox="0 0 24 24"><path d="M15,12 a3,3 0 1,1 -6,0 a3,3 0 0,1 6,0 z"/></svg>'
+  const fingerprint = getSvgFingerprint(compact)
+
+  assert.match(fingerprint, /d="M 15 12 a 3 3 0 1 1 -6 0 3 3 0 0 1 6 0 z"/)
+  assert.equal(fingerprint, getSvgFingerprint(spaced.replace('a3,3 0 0,1', '3 3 0 0 1')))
+})
+
+test('fingerprint ignores size, attribute order and currentColor', () => {
+  const a = '<svg width="16" height="16" viewBox="0 0 24 24" fill="#cccccc"><path d="M6 9l6 6 6-6"/></svg>'
+  const b = '<svg viewBox="0 0 24 24" fill="currentColor" class="icon"><path d="M6,9 l6,6 6,-6" /></svg>'
+  assert.equal(getSvgFingerprint(a, { currentColor: '#CCCCCC' }), getSvgFingerprint(b))
+})
@@ -0,0 +1,47 @@
+/**
+ * SVG Parser tests - run with `npm test`
+ */
+
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { parseSvgComponents } from '../svgParser'
+
+const parse = (text: string) => parseSvgComponents(text, { fileName: 'Icons.tsx', defaultFillColor: '#888888' })
+
+test('keeps the outer viewBox of a nested svg', () => {
+  const [component] = parse(
+    'export default () => (<svg viewBox="0 0 16 16"><svg viewBox="0 0 1 1"><rect width="1" height="1" /></svg></svg>)'
+  )
+  assert.equal(component.viewBox, '0 0 16 16')
+  assert.match(component.svg, /^<svg [^>]*viewBox="0 0 16 16"[^>]*><svg viewBox="0 0 1 1">/)
+  assert.match(component.svg, /^<svg [^>]*width="16"/)
+})
+
+test('unwraps an inner svg from an Icon wrapper', () => {
+  const [component] = parse(
+    'export const CheckIcon = () => <Icon viewBox="0 0 20 20"><svg><path d="M4 10l4 4 8-8" /></svg></Icon>'
+  )
+  assert.equal(component.name, 'CheckIcon')
+  assert.match(component.svg, /^<svg [^>]*viewBox="0 0 20 20"[^>]*><path d="M4 10l4 4 8-8"\s?\/><\/svg>$/)
+})
+
+test('finds forwardRef components and drops ref and props', () => {
+  const [component] = parse(
+    'export const ArrowIcon = forwardRef((props, ref) => (\n' +
+      '  <svg ref={ref} viewBox="0 0 24 24" strokeWidth={2} {...props}><path d="M4 12h16" /></svg>\n' +
+      '))'
+  )
+  assert.equal(component.name, 'ArrowIcon')
+  assert.equal(component.startLine, 0)
+  assert.doesNotMatch(component.svg, /ref=|\.\.\.props/)
+  assert.match(component.svg, /stroke-width="2"/)
+})
+
+test('reads createElement calls', () => {
+  const [component] = parse(
+    "export const Logo = () => React.createElement('svg', { viewBox: '0 0 24 24' }, React.createElement('path', { d: 'M0 0h24' }))"
+  )
+  assert.equal(component.name, 'Logo')
+  assert.equal(component.viewBox, '0 0 24 24')
+  assert.match(component.svg, /<path d="M0 0h24"/)
+})
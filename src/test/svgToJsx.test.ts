@@ -0,0 +1,32 @@
+/**
+ * SVG to JSX conversion tests - run with `npm test`
+ */
+
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { svgToJsx } from '../utils'
+import { generateIconComponent } from '../componentGenerator'
+
+test('converts SVG attributes to JSX', () => {
+  const svg = '<svg viewBox="0 0 24 24" stroke-width="2" class="icon"><path fill-rule="evenodd" d="M0 0h24"/></svg>'
+  assert.equal(
+    svgToJsx(svg),
+    '<svg viewBox="0 0 24 24" strokeWidth="2" className="icon"><path fillRule="evenodd" d="M0 0h24" /></svg>'
+  )
+})
+
+test('keeps expressions and spreads of a JSX selection', () => {
+  const selection = [
+    '<svg viewBox="0 0 24 24" strokeWidth={2} style={{ color: tone }} {...props}>',
+    '  <path d={active ? "M4 12h16" : "M12 4v16"} onClick={() => toggle()} />',
+    '</svg>',
+  ].join('\n')
+  assert.equal(svgToJsx(selection), selection)
+})
+
+test('generates a component from a TSX selection', () => {
+  const selection = '<svg viewBox="0 0 24 24" strokeWidth={2} {...rest}><path fill="#111" d="M4 12h16" /></svg>'
+  const source = generateIconComponent(selection, { name: 'LineIcon', currentColor: true })
+  assert.match(source, /<svg viewBox="0 0 24 24" strokeWidth=\{2\} \{\.\.\.rest\} \{\.\.\.props\}>/)
+  assert.match(source, /<path fill="currentColor" d="M4 12h16" \/>/)
+})
@@ -0,0 +1,31 @@
+/**
+ * Theme Color - Pick the currentColor substitute for the active color theme
+ */
+
+import * as vscode from 'vscode'
+
+// Setting value that makes the fill color follow the active theme
+const AUTO_FILL_COLOR = 'auto'
+
+/**
+ * Get the color used in place of currentColor.
+ * A fixed `defaultFillColor` wins; with "auto" the color for the active theme kind is used,
+ * which by default matches the editor foreground of VS Code's built-in themes.
+ */
+export function resolveFillColor(config: vscode.WorkspaceConfiguration): string {
+  const defaultFillColor = config.get<string>('defaultFillColor', AUTO_FILL_COLOR)
+  if (defaultFillColor && defaultFillColor !== AUTO_FILL_COLOR) {
+    return defaultFillColor
+  }
+
+  switch (vscode.window.activeColorTheme.kind) {
+    case vscode.ColorThemeKind.Light:
+      return config.get<string>('lightThemeFillColor', '#3B3B3B')
+    case vscode.ColorThemeKind.HighContrast:
+      return config.get<string>('highContrastFillColor', '#FFFFFF')
+    case vscode.ColorThemeKind.HighContrastLight:
+      return config.get<string>('highContrastLightFillColor', '#000000')
+    default:
+      return config.get<string>('darkThemeFillColor', '#CCCCCC')
+  }
+}
@@ -0,0 +1,673 @@
+/**
+ * Usage Resolver - Find JSX usages of SVG components and resolve them through imports
+ */
+
+import * as vscode from 'vscode'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as ts from 'typescript'
+import { ParsedSvgComponent, parseSvgComponents, parseRawSvgFile, parseSourceFile } from './svgParser'
+
+export interface SvgComponentUsage {
+  /** Tag name as written at the usage site, e.g. `ChevronDownIcon` or `Icons.ChevronDown` */
+  tagName: string
+  /** Line of the JSX tag (0-based) */
+  line: number
+  /** Character where the tag name starts */
+  startCharacter: number
+  /** Character where the tag name ends */
+  endCharacter: number
+  /** The resolved component definition */
+  component: ParsedSvgComponent
+  /** Absolute path of the file that defines the component */
+  definitionPath: string
+}
+
+/**
+ * Where a local identifier was imported from
+ */
+interface ImportBinding {
+  specifier: string
+  /** Imported name: 'default', a named export, or '*' for namespace imports */
+  importedName: string
+}
+
+/**
+ * What a module exports under one name
+ */
+type ExportTarget =
+  | { kind: 'local'; name: string }
+  | { kind: 'reexport'; specifier: string; importedName: string }
+
+/**
+ * Parsed information about a definition file
+ */
+interface ModuleInfo {
+  components: ParsedSvgComponent[]
+  imports: Map<string, ImportBinding>
+  exports: Map<string, ExportTarget>
+  /** Specifiers of `export * from '...'` declarations */
+  starExports: string[]
+}
+
+type ResolvedComponent = Pick<SvgComponentUsage, 'component' | 'definitionPath'>
+
+// Imports of SVG assets, with an optional loader query such as ?react or ?url
+const SVG_ASSET_PATTERN = /\.svg(?:\?[^/]*)?$/i
+
+// Maximum number of barrel files followed for a single lookup
+const MAX_REEXPORT_DEPTH = 8
+
+// Parsed definition files, keyed by absolute path
+const moduleCache: Map<string, ModuleInfo> = new Map()
+
+// Compiler options per tsconfig/jsconfig path, used for `paths` aliases
+const compilerOptionsCache: Map<string, ts.CompilerOptions> = new Map()
+
+// Nearest tsconfig/jsconfig path per directory, or null when there is none
+const configPathCache: Map<string, string | null> = new Map()
+
+// Resolved files per directory and specifier, or null when the import is not in the workspace.
+// Keys are prefixed with the resolver, as script and SVG asset imports resolve differently.
+const resolutionCache: Map<string, string | null> = new Map()
+
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  allowJs: true,
+  jsx: ts.JsxEmit.Preserve,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+}
+
+/**
+ * Get compiler options from the nearest tsconfig.json or jsconfig.json
+ */
+function getCompilerOptions(fromFile: string): ts.CompilerOptions {
+  const dir = path.dirname(fromFile)
+  let configPath = configPathCache.get(dir)
+  if (configPath === undefined) {
+    configPath =
+      ts.findConfigFile(dir, ts.sys.fileExists, 'tsconfig.json') ??
+      ts.findConfigFile(dir, ts.sys.fileExists, 'jsconfig.json') ??
+      null
+    configPathCache.set(dir, configPath)
+  }
+
+  if (!configPath) {
+    return DEFAULT_COMPILER_OPTIONS
+  }
+
+  let options = compilerOptionsCache.get(configPath)
+  if (!options) {
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile)
+    // Only compiler options are needed, so skip enumerating the project's files
+    const host: ts.ParseConfigHost = { ...ts.sys, readDirectory: () => [] }
+    const parsed = ts.parseJsonConfigFileContent(
+      config ?? {},
+      host,
+      path.dirname(configPath),
+      undefined,
+      configPath
+    )
+    options = { ...DEFAULT_COMPILER_OPTIONS, ...parsed.options, allowJs: true }
+    compilerOptionsCache.set(configPath, options)
+  }
+
+  return options
+}
+
+/**
+ * Get a cached resolution of a specifier from a file's directory, resolving it on first use
+ */
+function getCachedResolution(
+  kind: 'module' | 'svg',
+  specifier: string,
+  fromFile: string,
+  resolve: () => string | undefined
+): string | undefined {
+  const key = `${kind}:${path.dirname(fromFile)}:${specifier}`
+  let resolved = resolutionCache.get(key)
+  if (resolved === undefined) {
+    resolved = resolve() ?? null
+    resolutionCache.set(key, resolved)
+  }
+  return resolved ?? undefined
+}
+
+/**
+ * Resolve an import specifier to a source file in the workspace, cached per directory
+ */
+function resolveModule(specifier: string, fromFile: string): string | undefined {
+  return getCachedResolution('module', specifier, fromFile, () => findModule(specifier, fromFile))
+}
+
+/**
+ * Find the source file an import specifier refers to with TypeScript module resolution.
+ * Packages and declaration files are ignored.
+ */
+function findModule(specifier: string, fromFile: string): string | undefined {
+  const { resolvedModule } = ts.resolveModuleName(
+    specifier,
+    fromFile,
+    getCompilerOptions(fromFile),
+    ts.sys
+  )
+
+  if (
+    !resolvedModule ||
+    resolvedModule.isExternalLibraryImport ||
+    /\.d\.[cm]?ts$/i.test(resolvedModule.resolvedFileName)
+  ) {
+    return undefined
+  }
+
+  return path.normalize(resolvedModule.resolvedFileName)
+}
+
+/**
+ * Check if an import specifier refers to an SVG asset, e.g. './logo.svg' or './logo.svg?react'
+ */
+function isSvgAssetSpecifier(specifier: string): boolean {
+  return SVG_ASSET_PATTERN.test(specifier)
+}
+
+/**
+ * Resolve an SVG asset import to a file, cached per directory
+ */
+function resolveSvgAsset(specifier: string, fromFile: string): string | undefined {
+  return getCachedResolution('svg', specifier, fromFile, () => findSvgAsset(specifier, fromFile))
+}
+
+/**
+ * Find the file of an SVG asset import, using relative paths or tsconfig `paths` aliases.
+ * TypeScript module resolution does not handle non-script files, so aliases are matched here.
+ */
+function findSvgAsset(specifier: string, fromFile: string): string | undefined {
+  const request = specifier.replace(/\?.*$/, '')
+  const candidates: string[] = []
+
+  if (request.startsWith('.')) {
+    candidates.push(path.resolve(path.dirname(fromFile), request))
+  } else {
+    const options = getCompilerOptions(fromFile)
+    const basePath =
+      typeof options.pathsBasePath === 'string' ? options.pathsBasePath : options.baseUrl
+
+    if (basePath) {
+      for (const [pattern, targets] of Object.entries(options.paths ?? {})) {
+        const [prefix, suffix = ''] = pattern.split('*')
+        const hasWildcard = pattern.includes('*')
+        const matches = hasWildcard
+          ? request.length >= prefix.length + suffix.length &&
+            request.startsWith(prefix) &&
+            request.endsWith(suffix)
+          : request === pattern
+        if (!matches) {
+          continue
+        }
+        const wildcard = hasWildcard
+          ? request.slice(prefix.length, request.length - suffix.length)
+          : ''
+        for (const target of targets) {
+          candidates.push(path.resolve(basePath, target.replace('*', wildcard)))
+        }
+      }
+    }
+
+    if (options.baseUrl) {
+      candidates.push(path.resolve(options.baseUrl, request))
+    }
+  }
+
+  return candidates
+    .map((candidate) => path.normalize(candidate))
+    .find((candidate) => fs.existsSync(candidate))
+}
+
+/**
+ * Read a file, preferring the unsaved content of an open document
+ */
+function readFileText(filePath: string): string | undefined {
+  const openDocument = vscode.workspace.textDocuments.find(
+    (document) => path.normalize(document.uri.fsPath) === filePath
+  )
+  if (openDocument) {
+    return openDocument.getText()
+  }
+
+  try {
+    return fs.readFileSync(filePath, 'utf8')
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Collect import bindings by local name
+ */
+function collectImports(sourceFile: ts.SourceFile): Map<string, ImportBinding> {
+  const imports: Map<string, ImportBinding> = new Map()
+
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      !statement.importClause ||
+      statement.importClause.isTypeOnly
+    ) {
+      continue
+    }
+
+    const specifier = statement.moduleSpecifier.text
+    const { name, namedBindings } = statement.importClause
+
+    if (name) {
+      imports.set(name.text, { specifier, importedName: 'default' })
+    }
+
+    if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+      imports.set(namedBindings.name.text, { specifier, importedName: '*' })
+    } else if (namedBindings) {
+      for (const element of namedBindings.elements) {
+        if (!element.isTypeOnly) {
+          imports.set(element.name.text, {
+            specifier,
+            importedName: (element.propertyName ?? element.name).text,
+          })
+        }
+      }
+    }
+  }
+
+  return imports
+}
+
+/**
+ * Collect `export { ... }`, `export { ... } from`, `export * from` and `export default Name`
+ */
+function collectExports(
+  sourceFile: ts.SourceFile
+): Pick<ModuleInfo, 'exports' | 'starExports'> {
+  const exports: Map<string, ExportTarget> = new Map()
+  const starExports: string[] = []
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      if (ts.isIdentifier(statement.expression)) {
+        exports.set('default', { kind: 'local', name: statement.expression.text })
+      }
+      continue
+    }
+
+    if (!ts.isExportDeclaration(statement) || statement.isTypeOnly) {
+      continue
+    }
+
+    const specifier =
+      statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+        ? statement.moduleSpecifier.text
+        : undefined
+    const { exportClause } = statement
+
+    if (!exportClause) {
+      if (specifier) {
+        starExports.push(specifier)
+      }
+    } else if (ts.isNamespaceExport(exportClause)) {
+      if (specifier) {
+        exports.set(exportClause.name.text, { kind: 'reexport', specifier, importedName: '*' })
+      }
+    } else {
+      for (const element of exportClause.elements) {
+        const localName = (element.propertyName ?? element.name).text
+        exports.set(
+          element.name.text,
+          specifier
+            ? { kind: 'reexport', specifier, importedName: localName }
+            : { kind: 'local', name: localName }
+        )
+      }
+    }
+  }
+
+  return { exports, starExports }
+}
+
+/**
+ * Get parsed information for a definition file, using the cache when possible
+ */
+function getModuleInfo(filePath: string, defaultFillColor?: string): ModuleInfo | undefined {
+  const cached = moduleCache.get(filePath)
+  if (cached) {
+    return cached
+  }
+
+  const text = readFileText(filePath)
+  if (text === undefined) {
+    return undefined
+  }
+
+  const fileName = path.basename(filePath)
+
+  if (/\.svg$/i.test(fileName)) {
+    const info: ModuleInfo = {
+      components: parseRawSvgFile(text, fileName),
+      imports: new Map(),
+      exports: new Map(),
+      starExports: [],
+    }
+    moduleCache.set(filePath, info)
+    return info
+  }
+
+  const sourceFile = parseSourceFile(text, fileName)
+  const info: ModuleInfo = {
+    components: parseSvgComponents(text, { defaultFillColor, fileName }),
+    imports: collectImports(sourceFile),
+    ...collectExports(sourceFile),
+  }
+
+  moduleCache.set(filePath, info)
+  return info
+}
+
+/**
+ * Resolve an SVG asset import to its raw SVG preview.
+ * Default imports, SVGR's `ReactComponent` and `?react` / `?url` imports all map to the file itself.
+ */
+function resolveSvgAssetComponent(specifier: string, fromFile: string): ResolvedComponent | undefined {
+  const target = resolveSvgAsset(specifier, fromFile)
+  const component = target ? getModuleInfo(target)?.components[0] : undefined
+  return target && component ? { component, definitionPath: target } : undefined
+}
+
+/**
+ * Find the component a module exports under `exportName`, following
+ * re-exports through barrel files
+ */
+function lookupExport(
+  filePath: string,
+  exportName: string,
+  defaultFillColor: string | undefined,
+  depth = 0
+): ResolvedComponent | undefined {
+  if (depth > MAX_REEXPORT_DEPTH) {
+    return undefined
+  }
+
+  const info = getModuleInfo(filePath, defaultFillColor)
+  if (!info) {
+    return undefined
+  }
+
+  const follow = (specifier: string, importedName: string): ResolvedComponent | undefined => {
+    if (isSvgAssetSpecifier(specifier)) {
+      return resolveSvgAssetComponent(specifier, filePath)
+    }
+    const target = resolveModule(specifier, filePath)
+    return target ? lookupExport(target, importedName, defaultFillColor, depth + 1) : undefined
+  }
+
+  const target = info.exports.get(exportName)
+  if (target?.kind === 'reexport') {
+    return follow(target.specifier, target.importedName)
+  }
+
+  const localName = target?.name ?? exportName
+  const component =
+    exportName === 'default' && !target
+      ? info.components.find((c) => c.isDefaultExport)
+      : info.components.find((c) => c.name === localName)
+  if (component) {
+    return { component, definitionPath: filePath }
+  }
+
+  // Imported and then re-exported: import { X } from './x'; export { X }
+  const binding = info.imports.get(localName)
+  if (binding && binding.importedName !== '*') {
+    return follow(binding.specifier, binding.importedName)
+  }
+
+  if (exportName !== 'default') {
+    for (const specifier of info.starExports) {
+      const resolved = follow(specifier, exportName)
+      if (resolved) {
+        return resolved
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Resolve a JSX tag name used in `filePath` to its SVG component definition
+ */
+function resolveTagName(
+  tagName: ts.JsxTagNameExpression,
+  filePath: string,
+  imports: Map<string, ImportBinding>,
+  localComponents: ParsedSvgComponent[],
+  defaultFillColor: string | undefined
+): ResolvedComponent | undefined {
+  // <Icons.ChevronDown /> with import * as Icons from '...'
+  if (ts.isPropertyAccessExpression(tagName)) {
+    if (!ts.isIdentifier(tagName.expression)) {
+      return undefined
+    }
+    const binding = imports.get(tagName.expression.text)
+    if (!binding || binding.importedName !== '*') {
+      return undefined
+    }
+    const target = resolveModule(binding.specifier, filePath)
+    return target ? lookupExport(target, tagName.name.text, defaultFillColor) : undefined
+  }
+
+  // Lowercase tags are intrinsic elements
+  if (!ts.isIdentifier(tagName) || !/^[A-Z]/.test(tagName.text)) {
+    return undefined
+  }
+
+  const localComponent = localComponents.find((c) => c.name === tagName.text)
+  if (localComponent) {
+    return { component: localComponent, definitionPath: filePath }
+  }
+
+  const binding = imports.get(tagName.text)
+  if (binding && isSvgAssetSpecifier(binding.specifier)) {
+    return resolveSvgAssetComponent(binding.specifier, filePath)
+  }
+  if (!binding || binding.importedName === '*') {
+    return undefined
+  }
+  const target = resolveModule(binding.specifier, filePath)
+  return target ? lookupExport(target, binding.importedName, defaultFillColor) : undefined
+}
+
+/**
+ * Find the import lines of SVG assets: `import Logo from './logo.svg'`,
+ * `import { ReactComponent as Logo } from './logo.svg'` and `import Logo from './logo.svg?react'`
+ */
+function findSvgAssetImports(sourceFile: ts.SourceFile, filePath: string): SvgComponentUsage[] {
+  const usages: SvgComponentUsage[] = []
+
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      !isSvgAssetSpecifier(statement.moduleSpecifier.text) ||
+      !statement.importClause
+    ) {
+      continue
+    }
+
+    const resolved = resolveSvgAssetComponent(statement.moduleSpecifier.text, filePath)
+    if (!resolved) {
+      continue
+    }
+
+    const { name, namedBindings } = statement.importClause
+    const identifiers: ts.Identifier[] = name ? [name] : []
+    if (namedBindings && ts.isNamedImports(namedBindings)) {
+      identifiers.push(...namedBindings.elements.map((element) => element.name))
+    }
+
+    for (const identifier of identifiers) {
+      const position = identifier.getStart(sourceFile)
+      const { line } = sourceFile.getLineAndCharacterOfPosition(position)
+      const lineEnd = sourceFile.getLineAndCharacterOfPosition(sourceFile.getLineEndOfPosition(position))
+
+      // The whole import line is hoverable
+      usages.push({
+        tagName: identifier.text,
+        line,
+        startCharacter: 0,
+        endCharacter: lineEnd.character,
+        ...resolved,
+      })
+    }
+  }
+
+  return usages
+}
+
+/**
+ * Find JSX usages of SVG components in a document, such as `<ChevronDownIcon size={16} />`,
+ * plus the import lines of SVG assets.
+ * Usages inside a component's own declaration are skipped.
+ */
+export function findSvgComponentUsages(
+  text: string,
+  filePath: string,
+  localComponents: ParsedSvgComponent[],
+  options: { defaultFillColor?: string; sourceFile?: ts.SourceFile } = {}
+): SvgComponentUsage[] {
+  const normalizedPath = path.normalize(filePath)
+  const sourceFile = options.sourceFile ?? parseSourceFile(text, path.basename(filePath))
+  const imports = collectImports(sourceFile)
+  const resolvedTags: Map<string, ResolvedComponent | undefined> = new Map()
+  const usages: SvgComponentUsage[] = findSvgAssetImports(sourceFile, normalizedPath)
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+      const tagText = node.tagName.getText(sourceFile)
+      const start = sourceFile.getLineAndCharacterOfPosition(node.tagName.getStart(sourceFile))
+      const insideDeclaration = localComponents.some(
+        (c) => start.line >= c.startLine && start.line <= c.endLine
+      )
+
+      if (!insideDeclaration) {
+        if (!resolvedTags.has(tagText)) {
+          resolvedTags.set(
+            tagText,
+            resolveTagName(
+              node.tagName,
+              normalizedPath,
+              imports,
+              localComponents,
+              options.defaultFillColor
+            )
+          )
+        }
+
+        const resolved = resolvedTags.get(tagText)
+        if (resolved) {
+          usages.push({
+            tagName: tagText,
+            line: start.line,
+            startCharacter: start.character,
+            endCharacter: start.character + tagText.length,
+            ...resolved,
+          })
+        }
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+  ts.forEachChild(sourceFile, visit)
+
+  return usages
+}
+
+/**
+ * Find the usage whose tag name contains the given position
+ */
+export function findUsageAtPosition(
+  usages: SvgComponentUsage[],
+  line: number,
+  character: number
+): SvgComponentUsage | undefined {
+  return usages.find(
+    (u) => u.line === line && character >= u.startCharacter && character <= u.endCharacter
+  )
+}
+
+/**
+ * Watch definition files, SVG assets and tsconfig/jsconfig files, invalidating cached
+ * results when they change
+ */
+export function createDefinitionWatcher(
+  context: vscode.ExtensionContext,
+  onDidInvalidate: () => void
+): void {
+  const invalidate = (uri: vscode.Uri) => {
+    if (moduleCache.delete(path.normalize(uri.fsPath))) {
+      onDidInvalidate()
+    }
+  }
+
+  // Added and deleted files change what imports resolve to
+  const invalidateResolutions = (uri: vscode.Uri) => {
+    resolutionCache.clear()
+    moduleCache.delete(path.normalize(uri.fsPath))
+    onDidInvalidate()
+  }
+
+  const sourceWatcher = vscode.workspace.createFileSystemWatcher('**/*.{ts,tsx,js,jsx,mts,cts,mjs,cjs,svg}')
+  sourceWatcher.onDidChange(invalidate)
+  sourceWatcher.onDidCreate(invalidateResolutions)
+  sourceWatcher.onDidDelete(invalidateResolutions)
+
+  const configWatcher = vscode.workspace.createFileSystemWatcher('**/{tsconfig,jsconfig}*.json')
+  const invalidateConfig = () => {
+    compilerOptionsCache.clear()
+    configPathCache.clear()
+    resolutionCache.clear()
+    onDidInvalidate()
+  }
+  configWatcher.onDidChange(invalidateConfig)
+  configWatcher.onDidCreate(invalidateConfig)
+  configWatcher.onDidDelete(invalidateConfig)
+
+  // Unsaved edits in an open definition file are read from the document. Usages in other
+  // editors are re-resolved at most every half second while typing.
+  let editTimeout: NodeJS.Timeout | undefined
+  const documentChangeListener = vscode.workspace.onDidChangeTextDocument((event) => {
+    if (!moduleCache.delete(path.normalize(event.document.uri.fsPath))) {
+      return
+    }
+    if (editTimeout) {
+      clearTimeout(editTimeout)
+    }
+    editTimeout = setTimeout(() => {
+      editTimeout = undefined
+      onDidInvalidate()
+    }, 500)
+  })
+
+  context.subscriptions.push(sourceWatcher, configWatcher, documentChangeListener, {
+    dispose: () => {
+      if (editTimeout) {
+        clearTimeout(editTimeout)
+      }
+    },
+  })
+}
+
+/**
+ * Clear all cached definition files and compiler options
+ */
+export function clearDefinitionCache(): void {
+  moduleCache.clear()
+  compilerOptionsCache.clear()
+  configPathCache.clear()
+  resolutionCache.clear()
+}
@@ -9,6 +9,16 @@ export function camelToKebab(str: string): string {
   return str.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase()
 }
 
+/**
+ * Convert an icon name to kebab-case usable in file names and CSS identifiers. Names of
+ * map entries and embedded icons are flattened: icons.add -> icons-add, SubmitButton[0] -> submit-button-0
+ */
+export function toKebabName(name: string): string {
+  return camelToKebab(name)
+    .replace(/[^a-zA-Z0-9-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
 /**
  * Map of JSX attribute names to SVG attribute names
  */
@@ -53,6 +63,50 @@ const jsxToSvgAttrMap: Record<string, string> = {
   vectorEffect: 'vector-effect',
 }
 
+/**
+ * Map of SVG attribute names to JSX attribute names (inverse of jsxToSvgAttrMap)
+ */
+const svgToJsxAttrMap: Record<string, string> = Object.fromEntries(
+  Object.entries(jsxToSvgAttrMap).map(([jsxAttr, svgAttr]) => [svgAttr, jsxAttr])
+)
+
+/**
+ * Convert kebab-case names to camelCase
+ */
+export function kebabToCamel(str: string): string {
+  return str.replace(/-([a-z0-9])/g, (match, char: string) => char.toUpperCase())
+}
+
+/**
+ * Convert a file or icon name such as "arrow-left_small" to PascalCase ("ArrowLeftSmall")
+ */
+export function toPascalCase(str: string): string {
+  const pascal = str
+    .split(/[^a-zA-Z0-9]+/)
+    .filter((part) => part.length > 0)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('')
+  // Identifiers cannot start with a digit
+  return /^[0-9]/.test(pascal) ? `Svg${pascal}` : pascal
+}
+
+/**
+ * Convert SVG attribute name to JSX attribute name
+ */
+export function convertSvgAttr(attr: string): string {
+  if (svgToJsxAttrMap[attr]) {
+    return svgToJsxAttrMap[attr]
+  }
+  // data-* and aria-* attributes stay kebab-case in JSX
+  if (/^(?:data|aria)-/.test(attr)) {
+    return attr
+  }
+  if (attr.includes('-')) {
+    return kebabToCamel(attr)
+  }
+  return attr
+}
+
 /**
  * Convert JSX attribute name to SVG attribute name
  */
@@ -67,6 +121,42 @@ export function convertJsxAttr(attr: string): string {
   return attr
 }
 
+/**
+ * Create a function that gets the line and character (0-based) of an offset in a text
+ */
+export function createPositionResolver(text: string): (offset: number) => { line: number; character: number } {
+  const lineStarts = [0]
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      lineStarts.push(i + 1)
+    }
+  }
+
+  return (offset) => {
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2)
+      if (lineStarts[mid] <= offset) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+    return { line: low, character: offset - lineStarts[low] }
+  }
+}
+
+/**
+ * A problem found while converting JSX to SVG, meaning the preview may be inaccurate
+ */
+export interface SvgConversionIssue {
+  /** The viewBox was guessed from path coordinates, or a JSX expression was dropped */
+  kind: 'missingViewBox' | 'droppedExpression'
+  /** Source of the dropped JSX expression, without braces */
+  expression?: string
+}
+
 /**
  * Convert JSX/React SVG component to standard SVG string
  */
@@ -77,6 +167,10 @@ export function jsxToSvg(
     width?: number
     height?: number
     viewBox?: string
+    /** Collects conversion problems when provided */
+    issues?: SvgConversionIssue[]
+    /** Produce a standalone SVG file: keep currentColor and don't inject preview width and height */
+    forExport?: boolean
   } = {}
 ): string {
   const { defaultFillColor = '#888888', width = 16, height = 16 } = options
@@ -84,7 +178,7 @@ export function jsxToSvg(
   let svg = jsxString
 
   // Check if Icon/Svg wraps an inner <svg> element - if so, extract the inner svg
-  const innerSvgMatch = svg.match(/<(?:Icon|Svg)\b[^>]*>\s*(<svg[\s\S]*<\/svg>)\s*<\/(?:Icon|Svg)>/i)
+  const innerSvgMatch = svg.match(/<(?:Icon|Svg)\b[^>]*>\s*(<svg[\s\S]*<\/svg>)\s*<\/(?:Icon|Svg)>/)
   if (innerSvgMatch) {
     // Extract viewBox from outer Icon if inner svg doesn't have it
     const outerViewBoxMatch = svg.match(/<(?:Icon|Svg)\b[^>]*viewBox=["']([^"']+)["']/)
@@ -115,7 +209,9 @@ export function jsxToSvg(
 
   // Remove fill="none" from the root svg element (it makes the whole SVG invisible)
   // but keep it on child elements
-  svg = svg.replace(/(<svg[^>]*)\s+fill=["']none["']/, '$1')
+  if (!options.forExport) {
+    svg = svg.replace(/(<svg[^>]*)\s+fill=["']none["']/, '$1')
+  }
 
   // Convert numeric JSX expressions to string attributes: attr={16} -> attr="16"
   svg = svg.replace(/(\w+)=\{(\d+(?:\.\d+)?)\}/g, '$1="$2"')
@@ -160,7 +256,9 @@ export function jsxToSvg(
   )
 
   // Replace currentColor with default color
-  svg = svg.replace(/currentColor/g, defaultFillColor)
+  if (!options.forExport) {
+    svg = svg.replace(/currentColor/g, defaultFillColor)
+  }
 
   // Convert JSX attribute names to SVG attribute names
   // Match attribute="value" patterns
@@ -169,8 +267,12 @@ export function jsxToSvg(
     return ` ${svgAttr}=`
   })
 
-  // Remove remaining JSX expressions that couldn't be resolved
-  svg = svg.replace(/\s+\w+=\{[^}]*\}/g, '')
+  // Remove remaining JSX expressions that couldn't be resolved, including attributes
+  // already converted to kebab-case such as stroke-width={size}
+  svg = svg.replace(/\s+[\w:-]+=\{([^}]*)\}/g, (match, expression: string) => {
+    options.issues?.push({ kind: 'droppedExpression', expression: expression.trim() })
+    return ''
+  })
 
   // Extract viewBox if present, otherwise use default
   const viewBoxMatch = svg.match(/view-box=["']([^"']+)["']/)
@@ -184,9 +286,14 @@ export function jsxToSvg(
     svg = svg.replace(/<svg/, '<svg xmlns="http://www.w3.org/2000/svg"')
   }
 
+  // Only the root tag counts, not nested <svg> elements or child sizes like <rect width>
+  const getRootTag = () => svg.match(/<svg\b[^>]*>/)?.[0] ?? ''
+
   // Try to detect viewBox from path coordinates if not set
   let finalViewBox = viewBox
-  if (!svg.includes('viewBox=')) {
+  if (!/\sviewBox=/.test(getRootTag())) {
+    options.issues?.push({ kind: 'missingViewBox' })
+
     // Try to detect coordinate range from path d attributes
     const pathMatches = svg.matchAll(/d="([^"]+)"/g)
     let maxCoord = 0
@@ -220,16 +327,142 @@ export function jsxToSvg(
   }
 
   // Ensure width and height are set
-  if (!svg.includes('width=')) {
-    svg = svg.replace(/<svg/, `<svg width="${width}"`)
-  }
-  if (!svg.includes('height=')) {
-    svg = svg.replace(/<svg/, `<svg height="${height}"`)
+  if (!options.forExport) {
+    if (!/\swidth=/.test(getRootTag())) {
+      svg = svg.replace(/<svg/, `<svg width="${width}"`)
+    }
+    if (!/\sheight=/.test(getRootTag())) {
+      svg = svg.replace(/<svg/, `<svg height="${height}"`)
+    }
   }
 
   return svg.trim()
 }
 
+/**
+ * Paint values that keep an icon themeable, and are kept when substituting currentColor
+ */
+const THEMEABLE_PAINT_PATTERN = /^(?:none|currentColor|transparent|inherit|url\(.*\)|var\(.*\))$/i
+
+/**
+ * Check if a fill or stroke value keeps an icon themeable
+ */
+export function isThemeablePaint(value: string): boolean {
+  return THEMEABLE_PAINT_PATTERN.test(value.trim())
+}
+
+/**
+ * Convert an inline style string to a JSX style object: "mask-type: alpha" -> {{ maskType: 'alpha' }}
+ */
+function styleToJsx(style: string): string {
+  const entries = style
+    .split(';')
+    .map((declaration) => declaration.trim())
+    .filter((declaration) => declaration.includes(':'))
+    .map((declaration) => {
+      const colonIndex = declaration.indexOf(':')
+      const key = kebabToCamel(declaration.substring(0, colonIndex).trim())
+      const value = declaration.substring(colonIndex + 1).trim().replace(/'/g, "\\'")
+      return `${key}: '${value}'`
+    })
+  return `{{ ${entries.join(', ')} }}`
+}
+
+// A JSX {expression} with at most one level of nested braces, e.g. style={{ fill: color }}
+const JSX_EXPRESSION_SOURCE = '\\{(?:[^{}]|\\{[^{}]*\\})*\\}'
+
+// An opening tag, whose attributes may hold JSX expressions with `>` in them
+const JSX_OPENING_TAG_PATTERN = new RegExp(
+  `<([a-zA-Z][\\w.-]*)(\\s(?:${JSX_EXPRESSION_SOURCE}|[^>{])*?)?(\\s*\\/?)>`,
+  'g'
+)
+
+/**
+ * Convert standard SVG markup to JSX (the inverse of jsxToSvg)
+ */
+export function svgToJsx(
+  svg: string,
+  options: {
+    /** Replace fill and stroke colors with currentColor */
+    currentColor?: boolean
+  } = {}
+): string {
+  let jsx = svg
+
+  // Remove XML declaration, doctype and comments
+  jsx = jsx.replace(/<\?xml[\s\S]*?\?>/g, '')
+  jsx = jsx.replace(/<!DOCTYPE[\s\S]*?>/gi, '')
+  jsx = jsx.replace(/<!--[\s\S]*?-->/g, '')
+
+  // Remove namespaced editor elements, e.g. <sodipodi:namedview />
+  jsx = jsx.replace(/<([a-zA-Z]+:[\w.-]+)\b[^>]*?\/>/g, '')
+  jsx = jsx.replace(/<([a-zA-Z]+:[\w.-]+)\b[^>]*>[\s\S]*?<\/\1>/g, '')
+
+  // Remove lines left empty by the removals above
+  jsx = jsx.replace(/^[ \t]*\r?\n/gm, '')
+
+  // CSS in <style> elements contains braces, so wrap it in a template literal unless it already is
+  jsx = jsx.replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style>)/g, (match, open, css: string, close) =>
+    /^\s*\{[\s\S]*\}\s*$/.test(css) ? match : `${open}{\`${css.replace(/`/g, '\\`')}\`}${close}`
+  )
+
+  // Convert attributes of every opening tag. Markup that is already JSX keeps its
+  // {expression} values and {...spread} attributes as they are.
+  jsx = jsx.replace(JSX_OPENING_TAG_PATTERN, (match, tag, attrs = '', close) => {
+    const converted: string[] = []
+    const attrPattern = new RegExp(
+      `(${JSX_EXPRESSION_SOURCE}|[^\\s={]+)(?:\\s*=\\s*(?:"([^"]*)"|'([^']*)'|(${JSX_EXPRESSION_SOURCE})))?`,
+      'g'
+    )
+    let attrMatch: RegExpExecArray | null
+    while ((attrMatch = attrPattern.exec(attrs)) !== null) {
+      const name = attrMatch[1]
+      let value = attrMatch[2] ?? attrMatch[3]
+
+      if (name.startsWith('{')) {
+        converted.push(name)
+        continue
+      }
+      if (attrMatch[4] !== undefined) {
+        converted.push(`${convertSvgAttr(name)}=${attrMatch[4]}`)
+        continue
+      }
+
+      // Drop editor namespaces and attributes, keeping xlink and xml ones JSX supports
+      if (name.includes(':') && !svgToJsxAttrMap[name]) {
+        continue
+      }
+
+      if (value === undefined) {
+        converted.push(convertSvgAttr(name))
+        continue
+      }
+
+      if (name === 'style') {
+        converted.push(`style=${styleToJsx(value)}`)
+        continue
+      }
+
+      if (
+        options.currentColor &&
+        (name === 'fill' || name === 'stroke') &&
+        !isThemeablePaint(value)
+      ) {
+        value = 'currentColor'
+      }
+
+      converted.push(
+        value.includes('"') ? `${convertSvgAttr(name)}={'${value}'}` : `${convertSvgAttr(name)}="${value}"`
+      )
+    }
+
+    const attrString = converted.length > 0 ? ` ${converted.join(' ')}` : ''
+    return `<${tag}${attrString}${close.trim() ? ' />' : '>'}`
+  })
+
+  return jsx.trim()
+}
+
 /**
  * Convert SVG string to data URI
  */
@@ -250,6 +483,104 @@ export function svgToBase64DataUri(svg: string): string {
   return `data:image/svg+xml;base64,${base64}`
 }
 
+/**
+ * Convert SVG string to a data URI that stays readable: only the characters that break a
+ * data URI are escaped, and double quotes become single quotes (or the reverse when the
+ * URI is written in single quotes)
+ */
+export function svgToReadableDataUri(svg: string, quote: '"' | "'" = '"'): string {
+  const readable = svg
+    .replace(/\s*\n\s*/g, ' ')
+    .replace(/%/g, '%25')
+    .replace(/#/g, '%23')
+    .replace(quote === '"' ? /"/g : /'/g, quote === '"' ? "'" : '"')
+
+  return `data:image/svg+xml,${readable}`
+}
+
+/**
+ * Decode an SVG data URI, URL-encoded or base64, back to SVG markup
+ */
+export function dataUriToSvg(uri: string): string | undefined {
+  const match = uri.match(/^data:image\/svg\+xml((?:;(?!base64[;,])[^;,]*)*)(;base64)?,([\s\S]*)$/i)
+  if (!match) {
+    return undefined
+  }
+
+  try {
+    return match[2] ? Buffer.from(match[3], 'base64').toString('utf8') : decodeURIComponent(match[3])
+  } catch {
+    // Malformed escape sequences
+    return undefined
+  }
+}
+
+/**
+ * Escape text for use in HTML content and attributes
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Create a random nonce for the webview content security policy
+ */
+export function createNonce(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
+  let nonce = ''
+  for (let i = 0; i < 32; i++) {
+    nonce += chars.charAt(Math.floor(Math.random() * chars.length))
+  }
+  return nonce
+}
+
+/**
+ * Backgrounds available for preview variants
+ */
+export type PreviewBackground = 'light' | 'dark' | 'checkerboard'
+
+const PREVIEW_BACKGROUND_COLORS: Record<Exclude<PreviewBackground, 'checkerboard'>, string> = {
+  light: '#FFFFFF',
+  dark: '#1E1E1E',
+}
+
+/**
+ * Wrap an SVG in a background layer of the given size.
+ * The icon is nested as an inner <svg> that fills the background, keeping its own viewBox.
+ */
+export function wrapSvgWithBackground(
+  svg: string,
+  background: PreviewBackground,
+  width: number,
+  height: number
+): string {
+  // Let the inner svg fill the wrapper instead of its own width and height
+  const inner = svg.replace(/<svg\b[^>]*>/, (tag) =>
+    tag
+      .replace(/\s(?:width|height)=["'][^"']*["']/g, '')
+      .replace(/^<svg/, '<svg width="100%" height="100%"')
+  )
+
+  let layer: string
+  if (background === 'checkerboard') {
+    const cell = Math.max(width, height) / 8
+    layer =
+      `<defs><pattern id="preview-checkerboard" width="${cell * 2}" height="${cell * 2}" patternUnits="userSpaceOnUse">` +
+      `<rect width="${cell * 2}" height="${cell * 2}" fill="#FFFFFF"/>` +
+      `<rect width="${cell}" height="${cell}" fill="#CCCCCC"/>` +
+      `<rect x="${cell}" y="${cell}" width="${cell}" height="${cell}" fill="#CCCCCC"/>` +
+      `</pattern></defs><rect width="100%" height="100%" fill="url(#preview-checkerboard)"/>`
+  } else {
+    layer = `<rect width="100%" height="100%" fill="${PREVIEW_BACKGROUND_COLORS[background]}"/>`
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${layer}${inner}</svg>`
+}
+
 /**
  * Create a simple SVG placeholder for when parsing fails
  */